@@ -0,0 +1,171 @@
+// Renders pieces without a browser: seeds from recorded (or live) beacons, rasterizes on the CPU,
+// and writes a PNG with provenance in tEXt chunks plus the metadata JSON next to it.
+//
+//   npm run build:cli
+//   node dist-cli/tesseract.mjs render --fixture fixtures/quicknet.json --round 1234 --size 2048 --out x.png
+//   node dist-cli/tesseract.mjs render --fixture fixtures/quicknet.json --from 1000 --to 1100 --out-dir out/
+//
+// Without --fixture the beacons come from the live chain named by --chain.
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { createDrandSource, createFixtureSource, type BeaconFixture, type BeaconSource } from '../src/beacons'
+import { CHAINS } from '../src/drand'
+import { getPolytope, polytopeFromJSON, registerPolytope, type ProjectionMode } from '../src/geometry4d'
+import { buildMetadata, buildProvenance } from '../src/metadata'
+import { addPngText, encodePng } from '../src/png'
+import { generatePalette, paletteFromJSON, paletteIds, registerPalette } from '../src/palette'
+import { renderSoftware } from '../src/software'
+import { STYLES } from '../src/styles'
+import { ALGORITHM_VERSION, HIDDEN_WEIGHTS_V3, PROJECTION_WEIGHTS_V2, deriveArtParams, type ArtParams, type HiddenEdges, type StyleId } from '../src/traits'
+import type { TrustAnchor } from '../src/verify'
+
+const USAGE = `usage: tesseract render [options]
+
+  --round N               round to render (default: the latest in the source)
+  --from N --to M         render every round in [N, M]
+  --fixture FILE          recorded beacons (scripts/record-beacons.mjs output)
+  --chain-hash H --public-key K
+                          pin the fixture's chain when it is not a known one (else its beacons are unverified)
+  --chain NAME            live chain when no fixture is given (${Object.keys(CHAINS).join(', ')}; default mainnet)
+  --size N | WxH          image size in pixels (default 2048)
+  --out FILE              output PNG for a single round
+  --out-dir DIR           output directory (default .), files are tesseract-round-<N>.png/.json
+  --algorithm N           trait algorithm version (default ${ALGORITHM_VERSION})
+  --time S                animation time in seconds (default 0, the seeded pose)
+  --shape ID|FILE.json    override the seeded shape, optionally with a polytope JSON file
+  --palette ID|FILE.json  override the seeded palette ('generated' derives one from each beacon)
+  --style ID              override the seeded style
+  --projection MODE       override the seeded projection
+  --stroke-width W        override the seeded edge width (px at 1080p)
+  --hidden MODE           override how edges beyond w = 0 are drawn (solid, faded, dashed)`
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+function parseInteger(name: string, text: string | undefined): number | undefined {
+  if (text === undefined) return undefined
+  const n = Number(text)
+  if (!Number.isInteger(n) || n < 0) fail(`--${name} must be a non-negative integer, got "${text}"`)
+  return n
+}
+
+function oneOf<T extends string>(name: string, text: string | undefined, allowed: readonly T[]): T | undefined {
+  if (text === undefined) return undefined
+  if (!allowed.includes(text as T)) fail(`--${name} must be one of ${allowed.join(', ')}, got "${text}"`)
+  return text as T
+}
+
+function parseSize(text: string): { width: number; height: number } {
+  const m = /^(\d+)(?:[x×](\d+))?$/.exec(text.trim())
+  const width = m ? parseInt(m[1], 10) : 0
+  const height = m?.[2] ? parseInt(m[2], 10) : width
+  if (width < 1 || height < 1 || width > 16384 || height > 16384) fail(`--size must be N or WxH up to 16384, got "${text}"`)
+  return { width, height }
+}
+
+function openSource(fixture: string | undefined, chain: string | undefined, anchor: TrustAnchor | undefined): BeaconSource {
+  if (fixture) return createFixtureSource(JSON.parse(readFileSync(fixture, 'utf8')) as BeaconFixture, `fixture:${fixture}`, anchor)
+  const config = CHAINS[(chain ?? 'mainnet') as keyof typeof CHAINS]
+  if (!config) fail(`unknown chain "${chain}"`)
+  return createDrandSource(config)
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      round: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      fixture: { type: 'string' },
+      chain: { type: 'string' },
+      'chain-hash': { type: 'string' },
+      'public-key': { type: 'string' },
+      size: { type: 'string', default: '2048' },
+      out: { type: 'string' },
+      'out-dir': { type: 'string', default: '.' },
+      algorithm: { type: 'string' },
+      time: { type: 'string', default: '0' },
+      shape: { type: 'string' },
+      palette: { type: 'string' },
+      style: { type: 'string' },
+      projection: { type: 'string' },
+      'stroke-width': { type: 'string' },
+      hidden: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  if (values.help || positionals[0] !== 'render') fail(USAGE)
+
+  const { width, height } = parseSize(values.size)
+  const version = parseInteger('algorithm', values.algorithm) ?? ALGORITHM_VERSION
+  const time = Number(values.time)
+  if (!Number.isFinite(time)) fail(`--time must be a number, got "${values.time}"`)
+  let shape = values.shape
+  if (shape?.endsWith('.json')) {
+    const poly = polytopeFromJSON(JSON.parse(readFileSync(shape, 'utf8')))
+    registerPolytope(poly.name, () => poly)
+    shape = poly.name
+  }
+  if (shape) getPolytope(shape)
+  let palette = values.palette
+  if (palette?.endsWith('.json')) {
+    const def = paletteFromJSON(JSON.parse(readFileSync(palette, 'utf8')))
+    registerPalette(def)
+    palette = def.id
+  }
+  palette = oneOf('palette', palette, [...paletteIds(), 'generated'])
+  const style = oneOf('style', values.style, Object.keys(STYLES) as StyleId[])
+  const projection = oneOf<ProjectionMode>('projection', values.projection, PROJECTION_WEIGHTS_V2.map(([mode]) => mode))
+  const strokeWidth = values['stroke-width'] === undefined ? undefined : Number(values['stroke-width'])
+  if (strokeWidth !== undefined && !(strokeWidth >= 1 && strokeWidth <= 8)) fail(`--stroke-width must be a number from 1 to 8, got "${values['stroke-width']}"`)
+  const hidden = oneOf<HiddenEdges>('hidden', values.hidden, HIDDEN_WEIGHTS_V3.map(([mode]) => mode))
+
+  const chainHash = values['chain-hash'], publicKey = values['public-key']
+  if (!chainHash !== !publicKey) fail('--chain-hash and --public-key go together')
+  const source = openSource(values.fixture, values.chain, chainHash && publicKey ? { chainHash, publicKey } : undefined)
+  try {
+    let rounds: number[]
+    const from = parseInteger('from', values.from)
+    const to = parseInteger('to', values.to)
+    if (from !== undefined || to !== undefined) {
+      if (from === undefined || to === undefined || to < from) fail('--from and --to must both be given, with --from <= --to')
+      rounds = Array.from({ length: to - from + 1 }, (_, i) => from + i)
+    } else {
+      rounds = [parseInteger('round', values.round) ?? (await source.latest()).round]
+    }
+    if (values.out && rounds.length > 1) fail('--out names a single file; use --out-dir for ranges')
+
+    for (const round of rounds) {
+      const beacon = await source.forRound(round)
+      const seeded = deriveArtParams(beacon.randomness, version)
+      registerPalette(generatePalette(beacon.randomness))
+      // the same override semantics as the app's UI selects
+      const params: ArtParams = {
+        ...seeded,
+        shape: shape ?? seeded.shape,
+        palette: palette ?? seeded.palette,
+        style: style ?? seeded.style,
+        projection: projection ? { ...seeded.projection, mode: projection } : seeded.projection,
+        stroke: { ...seeded.stroke, width: strokeWidth ?? seeded.stroke.width, hidden: hidden ?? seeded.stroke.hidden },
+      }
+      const started = Date.now()
+      const image = renderSoftware({ width, height, params, poly: getPolytope(params.shape), time })
+      const png = addPngText(encodePng(image.data, width, height), buildProvenance(beacon, params, source.id))
+      const pngPath = values.out ?? join(values['out-dir'], `tesseract-round-${round}.png`)
+      // --out or --out-dir may name a directory that does not exist yet
+      mkdirSync(dirname(pngPath), { recursive: true })
+      writeFileSync(pngPath, png)
+      writeFileSync(pngPath.replace(/\.png$/i, '') + '.json', JSON.stringify(buildMetadata(beacon, params), null, 2) + '\n')
+      const note = beacon.verified ? '' : ` (unverified: ${beacon.reason})`
+      console.log(`round ${round}: ${params.shape} ${params.palette} ${params.style} -> ${pngPath} in ${Date.now() - started} ms${note}`)
+    }
+  } finally {
+    source.stop()
+  }
+}
+
+main().catch(err => fail(err instanceof Error ? err.message : String(err)))
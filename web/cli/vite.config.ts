@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite'
+
+// Bundles the CLI and the shared src/ modules into one Node script
+export default defineConfig({
+  build: {
+    ssr: 'cli/tesseract.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: { entryFileNames: 'tesseract.mjs', banner: '#!/usr/bin/env node' },
+    },
+  },
+  ssr: { noExternal: true },
+})
@@ -0,0 +1,52 @@
+// Serves recorded beacons over the drand HTTP API so the app (and anything else speaking drand) can run offline.
+//
+//   node scripts/mock-drand-server.mjs fixtures/quicknet.json [port]
+//
+// Then open the app with ?drand=http://localhost:8787&chainHash=<hash>&publicKey=<key>
+// (or ?chain=quicknet&drand=... when the fixture was recorded from quicknet).
+import { createServer } from 'node:http'
+import { readFileSync } from 'node:fs'
+
+const [fixturePath, portArg] = process.argv.slice(2)
+if (!fixturePath) {
+  console.error('usage: mock-drand-server.mjs <fixture.json> [port]')
+  process.exit(1)
+}
+const port = Number(portArg ?? 8787)
+const { info, beacons } = JSON.parse(readFileSync(fixturePath, 'utf8'))
+const byRound = new Map(beacons.map(b => [b.round, b]))
+const lastRound = Math.max(...byRound.keys())
+
+// Rounds follow the real clock but are capped to what was recorded
+function currentRound() {
+  const now = Math.floor((Date.now() / 1000 - info.genesis_time) / info.period) + 1
+  return Math.min(now, lastRound)
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'content-type': 'application/json',
+    'access-control-allow-origin': '*',
+    'cache-control': 'no-store',
+  })
+  res.end(JSON.stringify(body))
+}
+
+createServer((req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname.split('/').filter(Boolean)
+  // Both /info and /<chain hash>/info are valid drand paths
+  if (path[0] === info.hash) path.shift()
+  const [head, arg] = path
+  if (head === 'chains') return send(res, 200, [info.hash])
+  if (head === 'health') return send(res, 200, { current: currentRound(), expected: currentRound() })
+  if (head === 'info') return send(res, 200, info)
+  if (head === 'public') {
+    const round = arg === 'latest' || arg === undefined ? currentRound() : Number(arg)
+    const beacon = byRound.get(round)
+    if (!beacon) return send(res, 404, { error: `round ${arg} not recorded` })
+    return send(res, 200, beacon)
+  }
+  send(res, 404, { error: 'not found' })
+}).listen(port, () => {
+  console.log(`mock drand for chain ${info.hash} (${byRound.size} beacons) on http://localhost:${port}`)
+})
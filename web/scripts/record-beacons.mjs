@@ -0,0 +1,25 @@
+// Records a range of beacons from a live drand node into a fixture file for offline use.
+//
+//   node scripts/record-beacons.mjs <node url>/<chain hash> <from> <to> > public/fixtures/quicknet.json
+//
+// The output is the `BeaconFixture` shape read by src/beacons.ts and scripts/mock-drand-server.mjs.
+const [base, fromArg, toArg] = process.argv.slice(2)
+if (!base || !fromArg) {
+  console.error('usage: record-beacons.mjs <chain url> <from round> [to round]')
+  process.exit(1)
+}
+const from = Number(fromArg)
+const to = Number(toArg ?? fromArg)
+
+async function json(url) {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`${url}: ${res.status}`)
+  return res.json()
+}
+
+const info = await json(`${base}/info`)
+const beacons = []
+for (let round = from; round <= to; round++) {
+  beacons.push(await json(`${base}/public/${round}`))
+}
+process.stdout.write(JSON.stringify({ info, beacons }, null, 2) + '\n')
@@ -0,0 +1,86 @@
+// Signs fixture chains with fixed test keys, for the schemes of drand mainnet (chained, signatures
+// on G2) and quicknet (unchained, signatures on G1) when no recording of the real chains is at hand.
+//
+//   node scripts/sign-fixtures.mjs fixtures
+//
+// Writes <dir>/chained-g2.json and <dir>/unchained-g1.json in the `BeaconFixture` shape. The keys are
+// public, so these chains prove nothing outside tests; record real ones with record-beacons.mjs.
+import { writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { bls12_381 as bls } from '@noble/curves/bls12-381'
+import { sha256 } from '@noble/hashes/sha2'
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils'
+
+const [dir] = process.argv.slice(2)
+if (!dir) {
+  console.error('usage: sign-fixtures.mjs <output dir>')
+  process.exit(1)
+}
+
+const DST_G2 = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NUL_'
+const DST_G1 = 'BLS_SIG_BLS12381G1_XMD:SHA-256_SSWU_RO_NUL_'
+const ROUNDS = 5
+
+function uint(n, bytes) {
+  const out = new Uint8Array(bytes)
+  const view = new DataView(out.buffer)
+  if (bytes === 4) view.setUint32(0, n, false)
+  else view.setBigUint64(0, BigInt(n), false)
+  return out
+}
+
+// as drand hashes it: sha256(period | genesis | public key | group hash [| beacon id])
+function chainHash(info) {
+  const parts = [uint(info.period, 4), uint(info.genesis_time, 8), hexToBytes(info.public_key), hexToBytes(info.groupHash)]
+  if (info.metadata.beaconID !== 'default') parts.push(utf8ToBytes(info.metadata.beaconID))
+  return bytesToHex(sha256(concatBytes(...parts)))
+}
+
+function chain({ name, secretKey, period, genesis, schemeID, beaconID, publicKey }) {
+  const info = {
+    public_key: bytesToHex(publicKey(secretKey)),
+    period,
+    genesis_time: genesis,
+    hash: '',
+    groupHash: bytesToHex(sha256(utf8ToBytes(`tesseract fixture group ${name}`))),
+    schemeID,
+    metadata: { beaconID },
+  }
+  info.hash = chainHash(info)
+  return info
+}
+
+function signChained(secretKey) {
+  const info = chain({
+    name: 'chained-g2', secretKey, period: 30, genesis: 1595431050, schemeID: 'pedersen-bls-chained', beaconID: 'default',
+    publicKey: sk => bls.longSignatures.getPublicKey(sk).toBytes(),
+  })
+  const beacons = []
+  // drand chains round 1 onto the genesis seed, the group hash
+  let previous = info.groupHash
+  for (let round = 1; round <= ROUNDS; round++) {
+    const message = sha256(concatBytes(hexToBytes(previous), uint(round, 8)))
+    const signature = bls.longSignatures.sign(bls.longSignatures.hash(message, DST_G2), secretKey).toBytes()
+    beacons.push({ round, randomness: bytesToHex(sha256(signature)), signature: bytesToHex(signature), previous_signature: previous })
+    previous = bytesToHex(signature)
+  }
+  return { info, beacons }
+}
+
+function signUnchainedG1(secretKey) {
+  const info = chain({
+    name: 'unchained-g1', secretKey, period: 3, genesis: 1692803367, schemeID: 'bls-unchained-g1-rfc9380', beaconID: 'quicknet',
+    publicKey: sk => bls.shortSignatures.getPublicKey(sk).toBytes(),
+  })
+  const beacons = []
+  for (let round = 1; round <= ROUNDS; round++) {
+    const message = sha256(uint(round, 8))
+    const signature = bls.shortSignatures.sign(bls.shortSignatures.hash(message, DST_G1), secretKey).toBytes()
+    beacons.push({ round, randomness: bytesToHex(sha256(signature)), signature: bytesToHex(signature) })
+  }
+  return { info, beacons }
+}
+
+const write = (name, fixture) => writeFileSync(join(dir, `${name}.json`), JSON.stringify(fixture, null, 2) + '\n')
+write('chained-g2', signChained(hexToBytes('1c0ffee000000000000000000000000000000000000000000000000000000001')))
+write('unchained-g1', signUnchainedG1(hexToBytes('1c0ffee000000000000000000000000000000000000000000000000000000002')))
@@ -7,8 +7,34 @@ import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass
 import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js'
 import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js'
 import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js'
-import { createDrandClient, getLatestVerifiedBeacon, getBeaconForRound, stopDrandClient } from './drand'
-import { createTesseract, createSimplex4D, createCrossPolytope4D, create24Cell, rotateVertices4D, project4Dto3D, type RotationAngles4D } from './geometry4d'
+import { roundAt, roundTime, type ChainInfo } from 'drand-client'
+import { beaconSourceFromUrl, createDrandSource } from './beacons'
+import { openBeaconCache, withBeaconCache } from './beaconCache'
+import { createGallery } from './gallery'
+import { getPolytope, loadPolytope, registerPolytope, type Polytope4D, type ProjectionMode, type RotationAngles4D } from './geometry4d'
+import { ALGORITHM_VERSION, deriveArtParams, type ArtParams, type HiddenEdges, type PaletteId, type ShapeId, type StyleId } from './traits'
+import { STYLES, applyStyleColors, createPaperTexture, createTubeEdges } from './styles'
+import { createFatEdges, isHairline, type Stroke } from './strokes'
+import { createFaceMesh, type FaceMode } from './faces'
+import { ROTATION_PLANES, anglesAt, loopRates } from './rotation4d'
+import { MAX_STARS, frameGeometry, frameRotation, mulberry32, oscillator, placeCamera, pulses, writeEdges, writeGlow, writeStars, type ViewState } from './artwork'
+import { generatePalette, getPalette, isReservedPaletteId, paletteColor, registerPalette, type PaletteDef } from './palette'
+import { createPaletteEditor } from './paletteEditor'
+import { createPlaneControls } from './planeControls'
+import { GPU_PROJECTIONS, createGpuWireframe } from './gpu4d'
+import { EASINGS, blendAngles, lerpHue, morphAnchors, morphPolytope, morphSegments, planMorph, type Easing, type MorphPlan } from './morph'
+import { AUDIO_PRESETS, createAudioAnalyzer, mappingFromJSON, modulation, type AudioAnalyzer, type AudioMapping, type AudioModulation } from './audio'
+import { openAudioFile, openMicrophone, type AudioInput } from './audioInput'
+import { FLICK_SECONDS, createFlickStream, createPerformanceLog, flickCameraPosition, performanceFromJSON, type FlickMove, type PerformanceEvent } from './performance'
+import { buildMetadata, buildProvenance } from './metadata'
+import { STILL_SIZES, canvasToPng, renderTiled } from './still'
+import { addPngText } from './png'
+import { wireframeToSvg, type DepthMode, type PageSize, type Wireframe } from './svg'
+import { createFrameSink, recordFrames, type RecordFormat } from './recording'
+import { createKiosk } from './kiosk'
+import { createRoundClock, roundsPerInterval } from './roundClock'
+import { decodePermalink, encodePermalink, type PermalinkState } from './permalink'
+import type { VerifiedBeacon } from './drand'
 
 type UiRefs = {
   status: HTMLElement
@@ -24,36 +50,43 @@ function $(id: string): HTMLElement {
   return el
 }
 
-function seedAnglesFromHex(hex: string): RotationAngles4D {
-  // Use the hex randomness to derive stable angles
-  const bytes: number[] = []
-  for (let i = 0; i < hex.length; i += 2) bytes.push(parseInt(hex.slice(i, i + 2), 16))
-  const toAngle = (i: number) => ((bytes[i % bytes.length] / 255) * Math.PI * 2) - Math.PI
-  return { xy: toAngle(0), xz: toAngle(1), xw: toAngle(2), yz: toAngle(3), yw: toAngle(4), zw: toAngle(5) }
+// Format epoch ms for a datetime-local input (local time, second precision)
+function toLocalDateTime(ms: number): string {
+  const d = new Date(ms)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
 }
 
-function hueFromHex(hex: string): number {
-  // Map first two bytes to hue [0,360)
-  const h = parseInt(hex.slice(0, 4), 16)
-  return (h % 360)
+function downloadBlob(name: string, blob: Blob) {
+  const link = document.createElement('a')
+  link.download = name
+  link.href = URL.createObjectURL(blob)
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(link.href), 0)
 }
 
-function mulberry32(seed: number) {
-  let t = seed >>> 0
-  return function () {
-    t += 0x6D2B79F5
-    let r = Math.imul(t ^ (t >>> 15), 1 | t)
-    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r)
-    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
-  }
+// "1920x1080" (or with ×) -> { width, height }; null when malformed or past browser canvas limits
+function parseSize(text: string): { width: number; height: number } | null {
+  const m = /^\s*(\d+)\s*[x×]\s*(\d+)\s*$/.exec(text)
+  if (!m) return null
+  const width = parseInt(m[1], 10)
+  const height = parseInt(m[2], 10)
+  return width >= 1 && height >= 1 && width <= 16384 && height <= 16384 ? { width, height } : null
 }
 
-function chooseShape(hex: string): 'tesseract' | 'simplex' {
-  const b = parseInt(hex.slice(0, 2), 16)
-  return (b % 2 === 0) ? 'tesseract' : 'simplex'
+// Set a select only to a value it offers, so links naming a removed option fall back to the default
+function selectOption(select: HTMLSelectElement, value: string | undefined): boolean {
+  if (value === undefined || ![...select.options].some(o => o.value === value)) return false
+  select.value = value
+  return true
 }
 
-type ShapeMode = 'auto' | 'tesseract' | 'simplex' | 'cross' | '24cell'
+// 'auto', a built-in shape, or the id of a polytope loaded from JSON
+type ShapeMode = 'auto' | ShapeId | (string & {})
+// 'auto', a built-in palette, 'generated' from the beacon, or an edited/imported one
+type PaletteMode = 'auto' | PaletteId | (string & {})
+type StyleMode = 'auto' | StyleId
+type ProjectionSelect = 'auto' | ProjectionMode
 
 export async function bootstrapApp(): Promise<void> {
   const ui: UiRefs = {
@@ -67,11 +100,36 @@ export async function bootstrapApp(): Promise<void> {
   // Controls
   const shapeSelect = document.getElementById('shapeSelect') as HTMLSelectElement
   const paletteSelect = document.getElementById('paletteSelect') as HTMLSelectElement
+  const styleSelect = document.getElementById('styleSelect') as HTMLSelectElement
+  const faceModeSelect = document.getElementById('faceMode') as HTMLSelectElement
+  const cellSelect = document.getElementById('cellSelect') as HTMLSelectElement
   const lineOpacity = document.getElementById('lineOpacity') as HTMLInputElement
   const bloomStrength = document.getElementById('bloomStrength') as HTMLInputElement
+  const strokeWidth = document.getElementById('strokeWidth') as HTMLInputElement
+  const strokeWidthVal = document.getElementById('strokeWidthVal') as HTMLElement
+  const hiddenEdgesSelect = document.getElementById('hiddenEdges') as HTMLSelectElement
   const speedCtrl = document.getElementById('speed') as HTMLInputElement
   const trailCtrl = document.getElementById('trail') as HTMLInputElement
+  const trailDecay = document.getElementById('trailDecay') as HTMLInputElement
+  const bloomVal = document.getElementById('bloomVal') as HTMLElement
+  const speedVal = document.getElementById('speedVal') as HTMLElement
+  const intervalVal = document.getElementById('intervalVal') as HTMLElement
+  const palettePreview = document.getElementById('palettePreview') as HTMLElement
+  const trailDecayVal = document.getElementById('trailDecayVal') as HTMLElement
+  const projectionSelect = document.getElementById('projectionSelect') as HTMLSelectElement
+  const projDistance = document.getElementById('projDistance') as HTMLInputElement
+  const projDistanceVal = document.getElementById('projDistanceVal') as HTMLElement
+  const slicePos = document.getElementById('slicePos') as HTMLInputElement
+  const slicePosVal = document.getElementById('slicePosVal') as HTMLElement
+  const sliceSweep = document.getElementById('sliceSweep') as HTMLInputElement
+  const morphDuration = document.getElementById('morphDuration') as HTMLInputElement
+  const morphDurationVal = document.getElementById('morphDurationVal') as HTMLElement
+  const morphEasingSelect = document.getElementById('morphEasing') as HTMLSelectElement
   let shapeMode: ShapeMode = (shapeSelect?.value as ShapeMode) ?? 'auto'
+  let paletteMode: PaletteMode = (paletteSelect?.value as PaletteMode) ?? 'auto'
+  let styleMode: StyleMode = (styleSelect?.value as StyleMode) ?? 'auto'
+  let projectionMode: ProjectionSelect = (projectionSelect?.value as ProjectionSelect) ?? 'auto'
+  let hiddenMode: HiddenEdges | 'auto' = (hiddenEdgesSelect?.value as HiddenEdges | 'auto') ?? 'auto'
 
   const canvas = document.getElementById('scene') as HTMLCanvasElement
   const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true })
@@ -86,6 +144,16 @@ export async function bootstrapApp(): Promise<void> {
   const controls = new OrbitControls(camera, renderer.domElement)
   controls.enableDamping = true
 
+  // 4D drags and plane sliders; their rotation is added to the seeded pose
+  const fourDToggle = document.getElementById('fourD') as HTMLInputElement
+  const planes = createPlaneControls({
+    target: renderer.domElement,
+    sliders: document.getElementById('planeSliders') as HTMLElement,
+    orbit: controls,
+    fourD: () => fourDToggle.checked,
+  })
+  ;(document.getElementById('planesReset') as HTMLButtonElement).addEventListener('click', () => planes.reset())
+
   const ambient = new THREE.AmbientLight('#88a', 0.6)
   scene.add(ambient)
   const dir = new THREE.DirectionalLight('#fff', 0.8)
@@ -109,21 +177,33 @@ export async function bootstrapApp(): Promise<void> {
 
   // Geometry buffers
   // Placeholder; will be replaced after randomness decides the shape
-  let vertices = createTesseract(1).vertices
-  let edges = createTesseract(1).edges
+  let poly: Polytope4D = getPolytope('tesseract')
   const lineGeometry = new THREE.BufferGeometry()
   // Each edge contributes 2 vertices
-  let positions = new Float32Array(edges.length * 2 * 3)
-  let colors = new Float32Array(edges.length * 2 * 3)
+  let positions = new Float32Array(poly.edges.length * 2 * 3)
+  let colors = new Float32Array(poly.edges.length * 2 * 3)
   lineGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
   lineGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
   const material = new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.65, blending: THREE.AdditiveBlending })
   const lines = new THREE.LineSegments(lineGeometry, material)
   scene.add(lines)
+  // Thick refractive edges for the glass style; grown when a shape needs more edges
+  let tubes = createTubeEdges(Math.max(64, poly.edges.length))
+  tubes.mesh.visible = false
+  scene.add(tubes.mesh)
+  // Wide, depth-shaded edges for seeds whose stroke is more than a hairline; grown like the tubes
+  let fatEdges = createFatEdges(Math.max(64, poly.edges.length))
+  fatEdges.mesh.visible = false
+  scene.add(fatEdges.mesh)
+  let depths = new Float32Array(poly.edges.length * 2)
+  const paper = createPaperTexture(mulberry32(0x9e3779b9))
+  // Translucent 2-faces / 3-cells
+  const faces = createFaceMesh()
+  scene.add(faces.mesh)
+  let faceMode: FaceMode = (faceModeSelect?.value as FaceMode) ?? 'off'
 
   // Background starfield seeded by randomness
   const starGeo = new THREE.BufferGeometry()
-  const MAX_STARS = 1500
   const starPositions = new Float32Array(MAX_STARS * 3)
   const starColors = new Float32Array(MAX_STARS * 3)
   starGeo.setAttribute('position', new THREE.BufferAttribute(starPositions, 3))
@@ -133,8 +213,8 @@ export async function bootstrapApp(): Promise<void> {
   scene.add(stars)
 
   // Vertex glow points
-  let glowPositions = new Float32Array(vertices.length * 3)
-  let glowColors = new Float32Array(vertices.length * 3)
+  let glowPositions = new Float32Array(poly.vertices.length * 3)
+  let glowColors = new Float32Array(poly.vertices.length * 3)
   const glowGeo = new THREE.BufferGeometry()
   glowGeo.setAttribute('position', new THREE.BufferAttribute(glowPositions, 3))
   glowGeo.setAttribute('color', new THREE.BufferAttribute(glowColors, 3))
@@ -142,176 +222,537 @@ export async function bootstrapApp(): Promise<void> {
   const glow = new THREE.Points(glowGeo, glowMat)
   scene.add(glow)
 
+  // The same lines and glow with the 4D work in the vertex shader; used whenever the view allows
+  const gpuToggle = document.getElementById('gpuWireframe') as HTMLInputElement
+  const gpu = createGpuWireframe()
+  gpu.setPolytope(poly)
+  scene.add(gpu.lines, gpu.points)
+  // what the gradient texture was last baked from
+  let gpuBaked: { def: PaletteDef; baseHue: number; style: StyleId } | null = null
+
+  // Extra shapes from JSON: ?polytopes=/shapes/duoprism-3-3.json,...
+  for (const url of new URL(window.location.href).searchParams.get('polytopes')?.split(',').filter(Boolean) ?? []) {
+    try {
+      const loaded = await loadPolytope(url)
+      registerPolytope(loaded.name, () => loaded)
+      shapeSelect.add(new Option(loaded.name, loaded.name))
+    } catch (err) {
+      console.error(err)
+    }
+  }
+
+  // A shared view (#v1.…, see permalink.ts). Modes and toggles are restored here, before they are read;
+  // values a new seed resets are restored after the first seed is loaded.
+  const link = decodePermalink(window.location.hash)
+  if (link) {
+    if (link.round !== undefined || link.algorithm !== undefined) {
+      const url = new URL(window.location.href)
+      if (link.round !== undefined) url.searchParams.set('round', String(link.round))
+      if (link.algorithm !== undefined) url.searchParams.set('version', String(link.algorithm))
+      window.history.replaceState(null, '', url)
+    }
+    if (selectOption(shapeSelect, link.shape)) shapeMode = shapeSelect.value
+    if (link.customPalette) addPalette(link.customPalette)
+    if (selectOption(paletteSelect, link.palette)) paletteMode = paletteSelect.value
+    if (selectOption(styleSelect, link.style)) styleMode = styleSelect.value as StyleMode
+    if (selectOption(projectionSelect, link.projection)) projectionMode = projectionSelect.value as ProjectionSelect
+    if (selectOption(faceModeSelect, link.faces)) faceMode = faceModeSelect.value as FaceMode
+    if (selectOption(hiddenEdgesSelect, link.hidden)) hiddenMode = hiddenEdgesSelect.value as HiddenEdges | 'auto'
+    if (link.sweep !== undefined) sliceSweep.checked = link.sweep
+    const isoclinicBox = document.getElementById('isoclinic') as HTMLInputElement
+    if (link.isoclinic !== undefined) isoclinicBox.checked = link.isoclinic
+    if (link.speed !== undefined) {
+      speedCtrl.value = String(link.speed)
+      if (speedVal) speedVal.textContent = link.speed.toFixed(2)
+    }
+    if (link.lineOpacity !== undefined) {
+      lineOpacity.value = String(link.lineOpacity)
+      material.opacity = link.lineOpacity
+    }
+  }
+
   // Randomness and animation state
-  const client = createDrandClient()
+  // beacons seen before come from IndexedDB, so revisited rounds load at once and offline
+  const beaconCache = await openBeaconCache()
+  // a link whose chain or fixture cannot be used still opens, on mainnet, saying why
+  let sourceError: string | null = null
+  const source = withBeaconCache(await beaconSourceFromUrl(new URL(window.location.href)).catch((err) => {
+    console.error(err)
+    sourceError = err instanceof Error ? err.message : String(err)
+    return createDrandSource()
+  }), beaconCache)
   let angles: RotationAngles4D = { xy: 0, xz: 0, xw: 0, yz: 0, yw: 0, zw: 0 }
+  let rates: RotationAngles4D = { xy: 0.35, xz: 0.27, xw: 0.31, yz: 0.29, yw: 0.33, zw: 0.37 }
   let baseHue = 210
-  let palette: 'ocean' | 'pastel' | 'dusk' | 'sunrise' | 'aurora' | 'rainforest' | 'candy' | 'fire' | 'ice' | 'galaxy' | 'mono' | 'vivid' = (paletteSelect?.value as any) ?? 'ocean'
+  let seededPalette = 'ocean'
+  let palette = paletteMode === 'auto' ? seededPalette : paletteMode
+  // stands in until the first beacon replaces it with its own
+  registerPalette(generatePalette('00'.repeat(32)))
+  let seededStyle: StyleId = 'nebula'
+  let style: StyleId = styleMode === 'auto' ? seededStyle : styleMode
+  let shownPoly: Polytope4D | null = null
+  let seededProjection: ProjectionMode = 'perspective'
+  let projection: ProjectionMode = projectionMode === 'auto' ? seededProjection : projectionMode
+  let projectionDistance = parseFloat(projDistance?.value ?? '3')
+  // slicing hyperplane offset as a fraction of the shape's circumradius
+  let sliceLevel = parseFloat(slicePos?.value ?? '0')
+  let sweep = sliceSweep?.checked ?? false
+  // the cell a Schlegel diagram looks through
+  let schlegelCell = 0
+  // What is on screen now, for metadata export
+  let current: { beacon: VerifiedBeacon; params: ArtParams } | null = null
   let speedMul = parseFloat((document.getElementById('speed') as HTMLInputElement)?.value ?? '10.0')
   let trail = (document.getElementById('trail') as HTMLInputElement)?.checked ?? true
+  let isoclinic = (document.getElementById('isoclinic') as HTMLInputElement)?.checked ?? false
+  // scaled animation time since the current seed was loaded
+  let tAccum = 0
+  // slider/seeded bloom before the pulse is added
+  let bloomBase = parseFloat(bloomStrength?.value ?? '4')
+  let trailSeconds = parseFloat(trailDecay?.value ?? '2')
+  // seeded edge stroke; the width slider and hidden-edge select override it until the next seed
+  let seededStroke: Stroke = { width: 1, depth: 0, hidden: 'solid' }
+  let stroke: Stroke = seededStroke
+  // while recording a seamless loop: the loop length in animation seconds, so pulses snap to it
+  let loopPeriod: number | null = null
+  // the recorder drives frames itself while this is set
+  let recording = false
+  // audio-reactive mode: the open input and its analysis, and this frame's modulation
+  let audio: { input: AudioInput; analyzer: AudioAnalyzer; block: Float32Array } | null = null
+  let audioMapping: AudioMapping = AUDIO_PRESETS.balanced
+  let audioMod: AudioModulation | null = null
+  // flicks: this seed's move stream and log, the camera sweep in progress and any replay
+  let nextFlick = createFlickStream('00'.repeat(32))
+  let performanceLog = createPerformanceLog(0, ALGORITHM_VERSION)
+  let flickSweep: { move: FlickMove; start: number; radius: number } | null = null
+  let replay: { events: PerformanceEvent[]; next: number } | null = null
+  // transition from the previous seed: where it started, its eased progress and the starfield at both ends
+  let morph: {
+    plan: MorphPlan | null
+    elapsed: number
+    u: number
+    angles: RotationAngles4D
+    rates: RotationAngles4D
+    hue: number
+    camera: { from: THREE.Vector3; to: THREE.Vector3; fromFov: number; toFov: number }
+    stars: { from: Float32Array; fromColors: Float32Array; fromCount: number; to: Float32Array; toColors: Float32Array; toCount: number }
+  } | null = null
+  let morphSeconds = parseFloat(morphDuration.value)
+  let morphEasing = morphEasingSelect.value as Easing
 
-  async function refreshBeacon(): Promise<void> {
+  // `instant` skips the transition, for a replay that must start from the seed exactly.
+  // Resolves to false when the beacon could not be loaded, 'skipped' when none was asked for.
+  async function refreshBeacon(instant = false): Promise<boolean | 'skipped'> {
+    // a new seed mid-clip or mid-replay would change the piece being recorded or replayed
+    if (recording || replay) return 'skipped'
     try {
       ui.status.textContent = 'Fetching randomness…'
       const url = new URL(window.location.href)
       const roundParam = url.searchParams.get('round')
-      const beacon = roundParam ? await getBeaconForRound(client, Number(roundParam)) : await getLatestVerifiedBeacon(client)
+      const beacon = roundParam ? await source.forRound(Number(roundParam)) : await source.latest()
       // Use beacon fields directly for UI & seeding
       ui.round.textContent = `round: ${beacon.round}`
       ui.verified.textContent = `verified: ${beacon.verified ? 'true' : 'false'}`
       ui.verified.classList.toggle('ok', beacon.verified)
       ui.verified.classList.toggle('fail', !beacon.verified)
+      ui.verified.title = beacon.reason ?? ''
       ui.randhex.textContent = `randomness: ${beacon.randomness}`
-      angles = seedAnglesFromHex(beacon.randomness)
-      baseHue = hueFromHex(beacon.randomness)
+      syncTimeline(await source.info(), beacon.round)
+      // ?version= renders with an older trait algorithm
+      const versionParam = url.searchParams.get('version')
+      const params = deriveArtParams(beacon.randomness, versionParam ? Number(versionParam) : undefined)
+      // Blend from the pose on screen now; a transition cut short starts over from where it got to
+      const previous = current && !instant && morphSeconds > 0 ? {
+        poly: view().poly,
+        rates: morph ? blendAngles(morph.rates, rates, morph.u, false) : rates,
+        angles: morph ? blendAngles(morph.angles, angles, morph.u) : angles,
+        hue: morph ? lerpHue(morph.hue, baseHue, morph.u) : baseHue,
+        tau: tAccum / 10,
+      } : null
+      const fromCamera = { position: camera.position.clone(), fov: camera.fov }
+      const fromStars = { positions: starPositions.slice(), colors: starColors.slice(), count: starGeo.drawRange.count }
+      angles = { ...params.angles }
+      rates = { ...params.rates }
+      tAccum = 0
+      nextFlick = createFlickStream(beacon.randomness)
+      performanceLog = createPerformanceLog(beacon.round, params.version)
+      flickSweep = null
+      baseHue = params.baseHue
+      registerPalette(generatePalette(beacon.randomness))
+      seededPalette = params.palette
+      palette = paletteMode === 'auto' ? seededPalette : paletteMode
+      updatePalettePreview()
 
       // Choose shape
-      const autoShape = chooseShape(beacon.randomness)
-      const selected = shapeMode === 'auto' ? autoShape : (shapeMode === 'cross' ? 'cross' : (shapeMode === '24cell' ? '24cell' : shapeMode))
+      const selected = shapeMode === 'auto' ? params.shape : shapeMode
       ui.shape.textContent = `shape: ${selected}`
-      const size = 1
-      if (selected === 'tesseract') {
-        const res = createTesseract(size)
-        vertices = res.vertices; edges = res.edges
-      } else if (selected === 'simplex') {
-        const res = createSimplex4D(size * 1.2)
-        vertices = res.vertices; edges = res.edges
-      } else if (selected === 'cross') {
-        const res = createCrossPolytope4D(size * 1.2)
-        vertices = res.vertices; edges = res.edges
-      } else {
-        const res = create24Cell(size * 0.9)
-        vertices = res.vertices; edges = res.edges
+      current = { beacon, params: { ...params, shape: selected } }
+      poly = getPolytope(selected)
+      morph = previous ? {
+        plan: previous.poly !== poly ? planMorph(previous.poly, poly) : null,
+        elapsed: 0,
+        u: 0,
+        // the old pose, carried on at the old rates from the new seed's time zero
+        angles: anglesAt(previous.angles, previous.rates, previous.tau),
+        rates: previous.rates,
+        hue: previous.hue,
+        camera: { from: fromCamera.position, to: fromCamera.position, fromFov: fromCamera.fov, toFov: fromCamera.fov },
+        stars: { from: fromStars.positions, fromColors: fromStars.colors, fromCount: fromStars.count, to: fromStars.positions, toColors: fromStars.colors, toCount: fromStars.count },
+      } : null
+      // faces follow the new topology only once the transition has finished
+      faces.setSuppressed(projection === 'slice' || !!morph?.plan)
+      if (poly !== shownPoly) {
+        shownPoly = poly
+        faces.setTopology(poly, faceMode)
+        gpu.setPolytope(poly)
+        populateCells(poly.cells?.length ?? 0)
       }
 
-      // Rebuild line buffers based on new edges
-      const needed = edges.length * 2 * 3
+      // Rebuild line buffers based on new edges; a cross-section draws up to one segment per 2-face
+      const segments = Math.max(poly.edges.length, poly.faces?.length ?? 0, morph?.plan ? morphSegments(morph.plan) : 0)
+      const needed = segments * 2 * 3
       if (positions.length !== needed) {
         positions = new Float32Array(needed)
         colors = new Float32Array(needed)
+        depths = new Float32Array(segments * 2)
         lineGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
         lineGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
       }
+      // glow points are the vertices, or one point per cut edge in a cross-section
+      const points = Math.max(poly.vertices.length, poly.edges.length, morph?.plan ? morphAnchors(morph.plan) : 0)
+      if (glowPositions.length !== points * 3) {
+        glowPositions = new Float32Array(points * 3)
+        glowColors = new Float32Array(points * 3)
+        glowGeo.setAttribute('position', new THREE.BufferAttribute(glowPositions, 3))
+        glowGeo.setAttribute('color', new THREE.BufferAttribute(glowColors, 3))
+      }
+      if (segments > tubes.capacity) {
+        scene.remove(tubes.mesh)
+        tubes.dispose()
+        tubes = createTubeEdges(segments)
+        scene.add(tubes.mesh)
+      }
+      if (segments > fatEdges.capacity) {
+        scene.remove(fatEdges.mesh)
+        fatEdges.dispose()
+        fatEdges = createFatEdges(segments)
+        fatEdges.material.blending = STYLES[style].blending
+        scene.add(fatEdges.mesh)
+      }
+
+      seedStars()
+
+      // Seeded bloom and trail; the sliders reflect them and can still override until the next seed
+      bloomBase = params.bloom.strength
+      bloom.radius = params.bloom.radius
+      bloom.threshold = params.bloom.threshold
+      bloomStrength.value = params.bloom.strength.toFixed(2)
+      if (bloomVal) bloomVal.textContent = params.bloom.strength.toFixed(2)
+      trail = params.trail.enabled
+      trailCtrl.checked = trail
+      trailDecay.value = String(params.trail.decaySeconds)
+      updateTrailDamp()
+      seededStroke = params.stroke
+      strokeWidth.value = params.stroke.width.toFixed(1)
+      updateStroke()
+      seededStyle = params.style
+      setStyle(styleMode === 'auto' ? seededStyle : styleMode)
+      seededProjection = params.projection.mode
+      setProjection(projectionMode === 'auto' ? seededProjection : projectionMode)
+      projectionDistance = params.projection.distance
+      projDistance.value = projectionDistance.toFixed(2)
+      if (projDistanceVal) projDistanceVal.textContent = projectionDistance.toFixed(2)
+      sliceLevel = params.projection.slice
+      slicePos.value = sliceLevel.toFixed(2)
+      if (slicePosVal) slicePosVal.textContent = sliceLevel.toFixed(2)
 
-      // Seed background stars deterministically
-      const seed = parseInt(beacon.randomness.slice(0, 8), 16) >>> 0
-      const rand = mulberry32(seed)
-      for (let i = 0, p = 0, c = 0; i < MAX_STARS; i++) {
-        // sphere shell
-        const r = 6 * Math.pow(rand(), 0.6)
-        const theta = rand() * Math.PI * 2
-        const phi = Math.acos(2 * rand() - 1)
-        const sx = r * Math.sin(phi) * Math.cos(theta)
-        const sy = r * Math.sin(phi) * Math.sin(theta)
-        const sz = r * Math.cos(phi)
-        starPositions[p++] = sx; starPositions[p++] = sy; starPositions[p++] = sz
-        const sc = new THREE.Color().setHSL(((baseHue / 360) + rand() * 0.2) % 1, 0.6, 0.5)
-        starColors[c++] = sc.r; starColors[c++] = sc.g; starColors[c++] = sc.b
+      placeCamera(camera, params.camera)
+      if (morph) {
+        morph.camera.to = camera.position.clone()
+        morph.camera.toFov = camera.fov
+        morph.stars = { ...morph.stars, to: starPositions.slice(), toColors: starColors.slice(), toCount: starGeo.drawRange.count }
+        applyMorph()
       }
-      starGeo.deleteAttribute('position')
-      starGeo.deleteAttribute('color')
-      starGeo.setAttribute('position', new THREE.BufferAttribute(starPositions, 3))
-      starGeo.setAttribute('color', new THREE.BufferAttribute(starColors, 3))
-
-      // Tune bloom by seed
-      bloom.strength = parseFloat(bloomStrength.value) || 0.9
-      bloom.radius = 0.4 + ((seed >> 10) % 200) / 1000
-      bloom.threshold = 0.7
-      ui.status.textContent = 'Randomness ready'
+      ui.status.textContent = sourceError ? `${sourceError}; showing ${source.id} instead` : `Randomness ready (${source.id})`
+      updateCaption(null)
+      return true
     } catch (err) {
       console.error(err)
       ui.status.textContent = 'Randomness error'
       ui.verified.textContent = 'verified: false'
       ui.verified.classList.remove('ok')
       ui.verified.classList.add('fail')
+      return false
     }
   }
 
+  // Timeline: pick a round or a moment in time; ?round= in the URL is what refreshBeacon loads
+  const roundInput = document.getElementById('roundInput') as HTMLInputElement
+  const timeInput = document.getElementById('timeInput') as HTMLInputElement
+  const roundScrub = document.getElementById('roundScrub') as HTMLInputElement
+  let currentRound = 0
+
+  function syncTimeline(info: ChainInfo, round: number) {
+    currentRound = round
+    roundScrub.max = String(Math.max(round, roundAt(Date.now(), info)))
+    roundScrub.value = String(round)
+    roundInput.value = String(round)
+    timeInput.value = toLocalDateTime(roundTime(info, round))
+  }
+
+  function selectRound(round: number | null, instant = false): Promise<boolean | 'skipped'> {
+    const url = new URL(window.location.href)
+    if (round === null) url.searchParams.delete('round')
+    else url.searchParams.set('round', String(round))
+    // a shared link's hash would pin the old round again on reload
+    url.hash = ''
+    window.history.replaceState(null, '', url)
+    replay = null
+    return refreshBeacon(instant)
+  }
+
+  // New seeds on drand's round clock: every round in kiosk mode, else every whole number of
+  // rounds closest to the auto interval
+  const autoRefresh = document.getElementById('autoRefresh') as HTMLInputElement
+  const interval = document.getElementById('interval') as HTMLInputElement
+  const roundClock = createRoundClock({
+    info: () => source.info(),
+    async load(round) {
+      const result = await refreshBeacon()
+      if (result === 'skipped') return result
+      // a pinned round has nothing newer to wait for
+      return result && (new URL(window.location.href).searchParams.has('round') || currentRound >= round)
+    },
+    every: info => (kiosk.active ? 1 : roundsPerInterval(info, parseInt(interval.value, 10))),
+    onRetry(failures, delayMs) {
+      ui.status.textContent = `Randomness unavailable, retrying in ${Math.round(delayMs / 1000)}s`
+      updateCaption(failures >= 2 ? `reconnecting in ${Math.round(delayMs / 1000)}s` : null)
+    },
+  })
+  function setAutoRefresh() {
+    // restart so a new interval takes effect from the next round
+    roundClock.stop()
+    if (autoRefresh.checked || kiosk.active) roundClock.start()
+  }
+
+  // Kiosk mode (?kiosk, or ?kiosk=plain without the caption): fullscreen, no panel, a seed per round
+  const kioskBtn = document.getElementById('kioskBtn') as HTMLButtonElement
+  const kioskCaption = document.getElementById('kioskCaption') as HTMLInputElement
+  const caption = document.getElementById('caption') as HTMLElement
+  const kiosk = createKiosk(caption, setAutoRefresh)
+
+  // Round, its publish time and verification, plus a note while reconnecting
+  async function updateCaption(note: string | null) {
+    if (!kiosk.active || !current) return
+    const { beacon } = current
+    const time = new Date(roundTime(await source.info(), beacon.round)).toLocaleTimeString()
+    kiosk.setCaption([`round ${beacon.round}`, time, beacon.verified ? 'verified' : 'unverified', note].filter(Boolean).join(' · '))
+  }
+
+  async function enterKiosk(withCaption: boolean) {
+    await kiosk.enter({ caption: withCaption })
+    // follow the chain: a pinned round would never change
+    if (new URL(window.location.href).searchParams.has('round')) await selectRound(null)
+    updateCaption(null)
+    setAutoRefresh()
+  }
+  kioskBtn.addEventListener('click', () => enterKiosk(kioskCaption.checked))
+  window.addEventListener('keydown', (ev) => {
+    if (ev.key === 'Escape' && kiosk.active) kiosk.exit()
+  })
+
   await refreshBeacon()
-  let refreshInterval = 30_000
-  let refreshTimer: number | null = null
-  const setAutoRefresh = () => {
-    if (refreshTimer) window.clearInterval(refreshTimer)
-    const auto = (document.getElementById('autoRefresh') as HTMLInputElement).checked
-    const iv = parseInt((document.getElementById('interval') as HTMLInputElement).value, 10) * 1000
-    refreshInterval = iv
-    if (auto) refreshTimer = window.setInterval(refreshBeacon, refreshInterval) as unknown as number
-    else refreshTimer = null
-  }
-  setAutoRefresh()
+  if (link) restoreLinkedView(link)
+
+  const kioskParam = new URL(window.location.href).searchParams.get('kiosk')
+  if (kioskParam !== null) enterKiosk(kioskParam !== 'plain')
+  else setAutoRefresh()
+
+  // Seed-driven values from a shared link: sliders, the chosen cell and the camera pose
+  function restoreLinkedView(state: Partial<PermalinkState>) {
+    if (state.bloom !== undefined) {
+      bloomBase = state.bloom
+      bloomStrength.value = String(state.bloom)
+      if (bloomVal) bloomVal.textContent = state.bloom.toFixed(2)
+    }
+    if (state.trail !== undefined) {
+      trail = state.trail
+      trailCtrl.checked = trail
+      afterimage.enabled = trail && STYLES[style].trail
+    }
+    if (state.trailDecay !== undefined) {
+      trailDecay.value = String(state.trailDecay)
+      updateTrailDamp()
+    }
+    if (state.strokeWidth !== undefined) {
+      strokeWidth.value = String(state.strokeWidth)
+      updateStroke()
+    }
+    if (state.projectionDistance !== undefined) {
+      projectionDistance = state.projectionDistance
+      projDistance.value = projectionDistance.toFixed(2)
+      if (projDistanceVal) projDistanceVal.textContent = projectionDistance.toFixed(2)
+    }
+    if (state.slice !== undefined) {
+      sliceLevel = state.slice
+      slicePos.value = sliceLevel.toFixed(2)
+      if (slicePosVal) slicePosVal.textContent = sliceLevel.toFixed(2)
+    }
+    if (state.cell !== undefined && selectOption(cellSelect, String(state.cell))) {
+      faces.setHighlight(state.cell)
+      schlegelCell = Math.max(0, state.cell)
+    }
+    if (state.planes) planes.set(state.planes)
+    if (state.camera) {
+      camera.position.fromArray(state.camera.position)
+      controls.target.fromArray(state.camera.target)
+      camera.fov = state.camera.fov
+      camera.updateProjectionMatrix()
+      controls.update()
+    }
+  }
+
+  // Everything on screen, for the copy-link button
+  function permalinkState(): Partial<PermalinkState> {
+    const versionParam = new URL(window.location.href).searchParams.get('version')
+    return {
+      round: current?.beacon.round,
+      algorithm: versionParam ? Number(versionParam) : undefined,
+      shape: shapeMode,
+      palette: paletteMode,
+      // generated palettes come back from the round itself
+      customPalette: isReservedPaletteId(palette) ? undefined : getPalette(palette),
+      style: styleMode,
+      projection: projectionMode,
+      faces: faceMode,
+      cell: parseInt(cellSelect.value, 10),
+      projectionDistance,
+      slice: sliceLevel,
+      sweep,
+      lineOpacity: material.opacity,
+      strokeWidth: stroke.width,
+      hidden: hiddenMode,
+      bloom: bloomBase,
+      speed: speedMul,
+      isoclinic,
+      trail,
+      trailDecay: trailSeconds,
+      planes: ROTATION_PLANES.some(p => planes.offsets[p] !== 0) ? { ...planes.offsets } : undefined,
+      camera: { position: camera.position.toArray(), target: controls.target.toArray(), fov: camera.fov },
+    }
+  }
 
   // Animation
-  const clock = new THREE.Clock()
-  let tAccum = 0
-  function animate() {
-    const dt = clock.getDelta() * speedMul
-    tAccum += dt
+  // The current view for the shared frame logic in artwork.ts
+  function view(): ViewState {
+    // hand-set plane rotation rides on the seeded (or mid-transition) pose
+    const turned = morph ? blendAngles(morph.angles, angles, morph.u) : { ...angles }
+    for (const p of ROTATION_PLANES) turned[p] += planes.offsets[p]
+    // a cross-section needs real 2-faces, so slices switch shape without the in-between
+    const shape = morph?.plan && projection !== 'slice' ? morphPolytope(morph.plan, morph.u) : poly
+    return { poly: shape, angles: turned, rates: morph ? blendAngles(morph.rates, rates, morph.u, false) : rates, isoclinic, projection, projectionDistance, sliceLevel, sweep, schlegelCell, loopPeriod }
+  }
+
+  // Advance everything by exactly `dt` real seconds and draw one frame
+  function renderFrame(dt: number) {
+    tAccum += dt * speedMul
+    // animation seconds; the speed slider at 10 plays the seeded rates in real time
+    const tau = tAccum / 10
     controls.update()
+    // inertia is wall-clock motion, so a recording holds the hand-set pose still
+    if (!recording) planes.update(dt)
+
+    // Replayed flicks fire as animation time passes them; the sweep is a function of that time too
+    while (replay && replay.next < replay.events.length && replay.events[replay.next].t <= tau) applyFlick(replay.events[replay.next++].t)
+    if (replay && replay.next >= replay.events.length && !flickSweep) {
+      replay = null
+      ui.status.textContent = 'Replay finished'
+    }
+    // Transitions run on wall-clock time, so the speed slider does not stretch them
+    if (morph) {
+      morph.elapsed += dt
+      applyMorph()
+    }
+    if (flickSweep) {
+      const u = Math.min(1, Math.max(0, (tau - flickSweep.start) / FLICK_SECONDS))
+      camera.position.set(...flickCameraPosition(flickSweep.move, flickSweep.radius, u))
+      camera.lookAt(0, 0, 0)
+      if (u >= 1) flickSweep = null
+    }
+
+    // Sound pushes each plane along on top of its seeded rate; recordings stay deterministic without it
+    audioMod = null
+    if (audio && !recording) {
+      audio.input.read(audio.block)
+      const frame = audio.analyzer.analyze(audio.block, dt)
+      audioMod = modulation(frame, audioMapping)
+      for (const p of Object.keys(angles) as Array<keyof RotationAngles4D>) angles[p] += rates[p] * audioMod.rateBoost[p] * dt * speedMul / 10
+      if (audioMod.beat && !flickSweep) flick()
+      updateAudioMeter(frame.bands)
+    }
+
+    const spec = STYLES[style]
+    const v = view()
+    const def = getPalette(palette)
+    const hue = morph ? lerpHue(morph.hue, baseHue, morph.u) : baseHue
+    // Plain hairlines and glow go to the GPU; wide strokes, tubes, faces, slices, Schlegel views and the in-between shapes of a transition need the CPU geometry
+    const wide = spec.edges === 'lines' && !isHairline(stroke)
+    const onGpu = gpuToggle.checked && !morph && spec.edges === 'lines' && !wide && faceMode === 'off' && GPU_PROJECTIONS.includes(projection)
+    lines.visible = spec.edges === 'lines' && !wide && !onGpu
+    fatEdges.mesh.visible = wide
+    glow.visible = spec.glow && !onGpu
+    gpu.lines.visible = onGpu
+    gpu.points.visible = onGpu && spec.glow
+    if (onGpu) {
+      if (gpuBaked?.def !== def || gpuBaked.baseHue !== hue || gpuBaked.style !== style) {
+        gpu.setPalette(def, hue, style)
+        gpuBaked = { def, baseHue: hue, style }
+      }
+      gpu.update({ rotation: frameRotation(v, tau), projection, distance: projectionDistance, flicker: oscillator(5, loopPeriod) * tau })
+      gpu.lineMaterial.uniforms.opacity.value = material.opacity
+      gpu.setViewportHeight(renderer.domElement.height)
+    } else {
+      const geom = frameGeometry(v, tau)
+      writeEdges(geom, hue, def, positions, colors, depths)
+      lineGeometry.setDrawRange(0, geom.segments.length * 2)
+      lineGeometry.attributes.position.needsUpdate = true
+      lineGeometry.attributes.color.needsUpdate = true
+      // mid-transition, glow stays on the moving vertices rather than every edge end
+      const glowGeom = v.poly === poly ? geom : { ...geom, points: geom.points.slice(0, morphAnchors(morph!.plan!)) }
+      writeGlow(glowGeom, hue, def, tau, loopPeriod, glowPositions, glowColors)
+      glowGeo.setDrawRange(0, glowGeom.points.length)
+      glowGeo.attributes.position.needsUpdate = true
+      glowGeo.attributes.color.needsUpdate = true
+
+      // Faces / cells colored by mean w-depth
+      faces.update(geom.projected, (t, _group, out) => { paletteColor(def, hue, t, out) })
+
+      // Style post-color tweaks
+      applyStyleColors(style, colors)
+      applyStyleColors(style, glowColors)
+      if (tubes.mesh.visible) tubes.update(positions, colors, geom.segments.length)
+      if (wide) {
+        fatEdges.update(positions, colors, depths, geom.segments.length)
+        fatEdges.material.uniforms.opacity.value = material.opacity
+        fatEdges.setResolution(renderer.domElement.width, renderer.domElement.height)
+      }
+    }
 
-    // Rotate a little over time to animate, plus base from the beacon
-    const timeAngles: RotationAngles4D = {
-      xy: angles.xy + dt * 0.35,
-      xz: angles.xz + dt * 0.27,
-      xw: angles.xw + dt * 0.31,
-      yz: angles.yz + dt * 0.29,
-      yw: angles.yw + dt * 0.33,
-      zw: angles.zw + dt * 0.37,
-    }
-
-    const rotated = rotateVertices4D(vertices, timeAngles)
-    // Project and color by w (stored in t)
-    const projected = rotated.map(v => project4Dto3D(v, 3))
-
-    // Update line segments positions and colors
-    let ptr = 0
-    let cptr = 0
-    for (let i = 0; i < edges.length; i++) {
-      const [a, b] = edges[i]
-      const va = projected[a]
-      const vb = projected[b]
-      positions[ptr++] = va.x
-      positions[ptr++] = va.y
-      positions[ptr++] = va.z
-      positions[ptr++] = vb.x
-      positions[ptr++] = vb.y
-      positions[ptr++] = vb.z
-
-      const baseEdgeHueA = paletteBaseHue(baseHue, i + a, palette)
-      const baseEdgeHueB = paletteBaseHue(baseHue, i + b, palette)
-      const { h: hA, s: sA, l: lA } = paletteHSL(baseEdgeHueA, va.t, palette)
-      const { h: hB, s: sB, l: lB } = paletteHSL(baseEdgeHueB, vb.t, palette)
-      const colA = new THREE.Color().setHSL(hA, sA, lA)
-      const colB = new THREE.Color().setHSL(hB, sB, lB)
-      colors[cptr++] = colA.r; colors[cptr++] = colA.g; colors[cptr++] = colA.b
-      colors[cptr++] = colB.r; colors[cptr++] = colB.g; colors[cptr++] = colB.b
-    }
-    lineGeometry.attributes.position.needsUpdate = true
-    lineGeometry.attributes.color.needsUpdate = true
-
-    // Update vertex glow positions/colors
-    for (let vi = 0, p = 0, c = 0; vi < projected.length; vi++) {
-      const v = projected[vi]
-      glowPositions[p++] = v.x; glowPositions[p++] = v.y; glowPositions[p++] = v.z
-      const baseVHue = paletteBaseHue(baseHue, vi, palette)
-      const { h, s, l } = paletteHSL(baseVHue, v.t, palette)
-      const flicker = 0.05 * Math.sin(tAccum * 0.5 + vi)
-      const col = new THREE.Color().setHSL(h, Math.min(1, s + flicker), Math.min(1, l + flicker * 0.5))
-      glowColors[c++] = col.r; glowColors[c++] = col.g; glowColors[c++] = col.b
-    }
-    glowGeo.attributes.position.needsUpdate = true
-    glowGeo.attributes.color.needsUpdate = true
-
-    // Style post-color tweaks
-    applyStyle('nebula', colors, positions)
-
-    // Subtle pulse
-    const lfo = 0.2 + 0.2 * Math.sin(tAccum * 0.3)
-    bloom.strength = Math.max(0, (bloom as any).strength + lfo * 0.02)
-    rgbShift.uniforms['amount'].value = 0.0008 + 0.0006 * (1 + Math.sin(tAccum * 0.5))
-
-    // AfterimagePass handles trails internally
+    // Subtle pulse around the slider value, a function of time so it does not drift
+    const pulse = pulses(tau, loopPeriod)
+    bloom.strength = Math.max(0, bloomBase + pulse.bloom + (audioMod?.bloom ?? 0))
+    rgbShift.uniforms['amount'].value = pulse.rgbShift + (audioMod?.rgbShift ?? 0)
+
+    // AfterimagePass handles trails internally; fade to 1/e over trailSeconds whatever the frame time
+    ;(afterimage as any).uniforms['damp'].value = Math.exp(-dt / (trailSeconds * (audioMod?.trailScale ?? 1)))
     renderer.clear()
-    composer.render()
+    if (STYLES[style].post) composer.render(dt)
+    else renderer.render(scene, camera)
+  }
+
+  const clock = new THREE.Clock()
+  function animate() {
+    const dt = clock.getDelta()
+    if (!recording) renderFrame(dt)
     requestAnimationFrame(animate)
   }
   animate()
@@ -326,205 +767,586 @@ export async function bootstrapApp(): Promise<void> {
   }
   window.addEventListener('resize', onResize)
 
-  // Keyboard shortcuts: press 's' to save a screenshot
-  window.addEventListener('keydown', (ev) => {
-    if (ev.key.toLowerCase() === 's') {
-      const link = document.createElement('a')
-      link.download = `tesseract-${Date.now()}.png`
-      link.href = renderer.domElement.toDataURL('image/png')
-      link.click()
+  // Keyboard shortcuts: press 's' to save a screenshot (window size, trails included)
+  // keys typed into a field (the audio mapping JSON, a palette name, ...) are not shortcuts
+  const isTyping = (target: EventTarget | null) =>
+    target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+
+  window.addEventListener('keydown', async (ev) => {
+    if (ev.key.toLowerCase() === 's' && !isTyping(ev.target)) {
+      const png = addPngText(await canvasToPng(renderer.domElement), provenance())
+      downloadBlob(`tesseract-round-${current?.beacon.round ?? 'unknown'}-${renderer.domElement.width}x${renderer.domElement.height}.png`, new Blob([png], { type: 'image/png' }))
     }
   })
 
+  // High-resolution still: offscreen tiles through the same composer, provenance in PNG tEXt chunks
+  async function exportStill(width: number, height: number) {
+    if (!current) return
+    const round = current.beacon.round
+    ui.status.textContent = `Rendering ${width}×${height}…`
+    const starSize = starMat.size
+    const glowSize = glowMat.size
+    // the afterimage buffer would smear each tile into the next
+    afterimage.enabled = false
+    let image: HTMLCanvasElement
+    try {
+      image = renderTiled({
+        renderer, camera, scene, width, height,
+        composer: STYLES[style].post ? composer : null,
+        // sized points scale with the render height, so keep them relative to the whole image
+        beforeTile: (th) => { starMat.size = starSize * height / th; glowMat.size = glowSize * height / th },
+      })
+    } finally {
+      starMat.size = starSize
+      glowMat.size = glowSize
+      afterimage.enabled = trail && STYLES[style].trail
+      renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+      onResize()
+    }
+    const png = addPngText(await canvasToPng(image), provenance())
+    downloadBlob(`tesseract-round-${round}-${width}x${height}.png`, new Blob([png], { type: 'image/png' }))
+    ui.status.textContent = `Saved ${width}×${height} still of round ${round}`
+  }
+
+  // Fixed-timestep clip: the live loop pauses and every frame advances by exactly 1/fps
+  async function recordClip(format: RecordFormat, seconds: number, fps: number, width: number, height: number, seamless: boolean) {
+    if (!current) return
+    const round = current.beacon.round
+    // codecs want even dimensions
+    const w = width + (width % 2)
+    const h = height + (height % 2)
+    const frames = Math.round(seconds * fps)
+    const saved = { tAccum, rates }
+    recording = true
+    try {
+      const sink = await createFrameSink(format, w, h, fps, `tesseract-round-${round}`)
+      if (seamless) {
+        // one clip = this many animation seconds; rotation and pulses complete whole cycles in it
+        loopPeriod = (seconds * speedMul) / 10
+        rates = loopRates(rates, loopPeriod)
+      }
+      renderer.setPixelRatio(1)
+      renderer.setSize(w, h, false)
+      composer.setSize(w, h)
+      camera.aspect = w / h
+      camera.updateProjectionMatrix()
+      const blob = await recordFrames({
+        frames,
+        fps,
+        // a seamless loop starts with the trail already built, as it would be on the second pass
+        preroll: seamless && trail ? Math.min(frames, Math.ceil(trailSeconds * 5 * fps)) : 0,
+        step: renderFrame,
+        canvas: renderer.domElement,
+        sink,
+        onProgress: (done, total) => { ui.status.textContent = `Recording frame ${done}/${total}…` },
+      })
+      const ext = format === 'frames' ? 'zip' : format
+      downloadBlob(`tesseract-round-${round}-${seconds}s-${fps}fps.${ext}`, blob)
+      ui.status.textContent = `Saved ${frames}-frame clip of round ${round}`
+    } finally {
+      tAccum = saved.tAccum
+      rates = saved.rates
+      loopPeriod = null
+      renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+      onResize()
+      clock.getDelta()
+      recording = false
+    }
+  }
+
+  // Plotter SVG of the wireframe as the camera sees it; several samples make a long exposure
+  function exportSvg() {
+    if (!current) return
+    const round = current.beacon.round
+    const samples = Math.max(1, parseInt((document.getElementById('svgSamples') as HTMLInputElement).value, 10) || 1)
+    const span = parseFloat((document.getElementById('svgSpan') as HTMLInputElement).value) || 0
+    const tau = tAccum / 10
+    const state = view()
+    // faces index the shape being projected; a morph's in-between shape has none, so nothing is hidden then
+    const occluders = projection === 'slice' ? undefined : state.poly.faces
+    const frames: Wireframe[] = []
+    for (let i = 0; i < samples; i++) {
+      const g = frameGeometry(state, samples > 1 ? tau - span * (1 - i / (samples - 1)) : tau)
+      frames.push({ points: g.points, edges: g.segments, faces: occluders })
+    }
+    const svg = wireframeToSvg(frames, camera, {
+      page: (document.getElementById('svgPage') as HTMLSelectElement).value as PageSize,
+      landscape: (document.getElementById('svgLandscape') as HTMLInputElement).checked,
+      marginMm: Math.max(0, parseFloat((document.getElementById('svgMargin') as HTMLInputElement).value) || 0),
+      pens: Math.max(0, parseInt((document.getElementById('svgPens') as HTMLInputElement).value, 10) || 0),
+      depth: (document.getElementById('svgDepth') as HTMLSelectElement).value as DepthMode,
+      strokeMm: 0.3,
+      color: (t) => `#${paletteColor(getPalette(palette), baseHue, t, new THREE.Color()).getHexString()}`,
+      // cross-section points change from sample to sample, so they have no paths to trace
+      trails: samples > 1 && projection !== 'slice',
+      title: `Tesseract #${round}`,
+      metadata: provenance(),
+    })
+    downloadBlob(`tesseract-round-${round}.svg`, new Blob([svg], { type: 'image/svg+xml' }))
+    ui.status.textContent = `Saved SVG of round ${round}`
+  }
+
+  function provenance(): Record<string, string> {
+    return current ? buildProvenance(current.beacon, renderedParams(), source.id) : {}
+  }
+
+  // Seeded params with the UI overrides that are actually on screen
+  function renderedParams(): ArtParams {
+    return { ...current!.params, palette, style, projection: { mode: projection, distance: projectionDistance, slice: sliceLevel } }
+  }
+
+  const stillSize = document.getElementById('stillSize') as HTMLInputElement
+  const stillSizes = document.getElementById('stillSizes') as HTMLDataListElement
+  stillSizes.replaceChildren(...STILL_SIZES.map(s => new Option(s.label, `${s.width}x${s.height}`)))
+  const stillBtn = document.getElementById('stillBtn') as HTMLButtonElement
+  stillBtn.addEventListener('click', async () => {
+    const size = parseSize(stillSize.value)
+    if (!size) {
+      ui.status.textContent = 'Still size must be WxH, up to 16384 per side'
+      return
+    }
+    stillBtn.disabled = true
+    try {
+      await exportStill(size.width, size.height)
+    } catch (err) {
+      console.error(err)
+      ui.status.textContent = 'Still export failed'
+    } finally {
+      stillBtn.disabled = false
+    }
+  })
+  const recordBtn = document.getElementById('recordBtn') as HTMLButtonElement
+  recordBtn.addEventListener('click', async () => {
+    const size = parseSize((document.getElementById('recSize') as HTMLInputElement).value)
+    const seconds = parseFloat((document.getElementById('recSeconds') as HTMLInputElement).value)
+    if (!size || !(seconds > 0)) {
+      ui.status.textContent = 'Clip needs a length in seconds and a WxH size'
+      return
+    }
+    const fps = parseInt((document.getElementById('recFps') as HTMLSelectElement).value, 10)
+    const format = (document.getElementById('recFormat') as HTMLSelectElement).value as RecordFormat
+    const seamless = (document.getElementById('recLoop') as HTMLInputElement).checked
+    recordBtn.disabled = true
+    try {
+      await recordClip(format, seconds, fps, size.width, size.height, seamless)
+    } catch (err) {
+      console.error(err)
+      ui.status.textContent = `Recording failed: ${err instanceof Error ? err.message : err}`
+    } finally {
+      recordBtn.disabled = false
+    }
+  })
+
+  const svgBtn = document.getElementById('svgBtn') as HTMLButtonElement
+  svgBtn.addEventListener('click', exportSvg)
+
   // Control bindings
   shapeSelect.addEventListener('change', () => {
     shapeMode = shapeSelect.value as ShapeMode
     refreshBeacon()
   })
   paletteSelect.addEventListener('change', () => {
-    palette = paletteSelect.value as any
-    updatePalettePreview()
+    paletteMode = paletteSelect.value
+    palette = paletteMode === 'auto' ? seededPalette : paletteMode
+    applyPalette()
+    if (paletteEditor.isOpen) paletteEditor.open(getPalette(palette), baseHue)
+  })
+  const paletteEditor = createPaletteEditor(document.getElementById('paletteEditor') as HTMLElement, {
+    onChange: usePalette,
+    onImport: usePalette,
+    onExport: (def) => downloadBlob(`palette-${def.id}.json`, new Blob([JSON.stringify(def, null, 2) + '\n'], { type: 'application/json' })),
+    onError: (message) => { ui.status.textContent = message },
+  })
+  const paletteEditBtn = document.getElementById('paletteEditBtn') as HTMLButtonElement
+  paletteEditBtn.addEventListener('click', () => {
+    if (paletteEditor.isOpen) paletteEditor.close()
+    else paletteEditor.open(getPalette(palette), baseHue)
   })
   lineOpacity.addEventListener('input', () => {
     material.opacity = parseFloat(lineOpacity.value)
     material.needsUpdate = true
   })
-  const bloomVal = document.getElementById('bloomVal') as HTMLElement
-  const speedVal = document.getElementById('speedVal') as HTMLElement
-  const intervalVal = document.getElementById('intervalVal') as HTMLElement
-  const palettePreview = document.getElementById('palettePreview') as HTMLElement
-  const trailDecay = document.getElementById('trailDecay') as HTMLInputElement
-  const trailDecayVal = document.getElementById('trailDecayVal') as HTMLElement
   bloomStrength.addEventListener('input', () => {
     const v = parseFloat(bloomStrength.value)
-    if (!Number.isNaN(v)) (bloom as any).strength = v
+    if (!Number.isNaN(v)) bloomBase = v
     if (bloomVal) bloomVal.textContent = v.toFixed(2)
   })
   speedCtrl.addEventListener('input', () => {
     const v = parseFloat(speedCtrl.value); if (!Number.isNaN(v)) speedMul = v
     if (speedVal) speedVal.textContent = v.toFixed(2)
   })
-  trailCtrl.addEventListener('change', () => { trail = trailCtrl.checked; afterimage.enabled = trail })
-  // map desired decay time to AfterimagePass damp (0..1) using exponential relation
-  const updateTrailDamp = () => {
+  const isoclinicCtrl = document.getElementById('isoclinic') as HTMLInputElement
+  isoclinicCtrl.addEventListener('change', () => { isoclinic = isoclinicCtrl.checked })
+  trailCtrl.addEventListener('change', () => { trail = trailCtrl.checked; afterimage.enabled = trail && STYLES[style].trail })
+  faceModeSelect.addEventListener('change', () => {
+    faceMode = faceModeSelect.value as FaceMode
+    if (shownPoly) faces.setTopology(shownPoly, faceMode)
+  })
+  cellSelect.addEventListener('change', () => {
+    const cell = parseInt(cellSelect.value, 10)
+    faces.setHighlight(cell)
+    schlegelCell = Math.max(0, cell)
+  })
+  projectionSelect.addEventListener('change', () => {
+    projectionMode = projectionSelect.value as ProjectionSelect
+    setProjection(projectionMode === 'auto' ? seededProjection : projectionMode)
+  })
+  projDistance.addEventListener('input', () => {
+    const v = parseFloat(projDistance.value); if (!Number.isNaN(v)) projectionDistance = v
+    if (projDistanceVal) projDistanceVal.textContent = v.toFixed(2)
+  })
+  slicePos.addEventListener('input', () => {
+    const v = parseFloat(slicePos.value); if (!Number.isNaN(v)) sliceLevel = v
+    if (slicePosVal) slicePosVal.textContent = v.toFixed(2)
+  })
+  sliceSweep.addEventListener('change', () => { sweep = sliceSweep.checked })
+  styleSelect.addEventListener('change', () => {
+    styleMode = styleSelect.value as StyleMode
+    setStyle(styleMode === 'auto' ? seededStyle : styleMode)
+  })
+  // decay time for the trail; renderFrame turns it into the per-frame AfterimagePass damp
+  function updateTrailDamp() {
     const seconds = parseFloat(trailDecay.value)
-    const fps = 60
-    const perFrameDamp = Math.exp(-1 / (seconds * fps))
-    ;(afterimage as any).uniforms['damp'].value = perFrameDamp
+    if (!Number.isNaN(seconds)) trailSeconds = seconds
     if (trailDecayVal) trailDecayVal.textContent = `${seconds.toFixed(1)}s`
   }
   trailDecay.addEventListener('input', updateTrailDamp)
   updateTrailDamp()
-  const autoRefresh = document.getElementById('autoRefresh') as HTMLInputElement
-  const interval = document.getElementById('interval') as HTMLInputElement
+
+  // Edge stroke: the seeded one with the width slider and hidden-edge choice on top
+  function updateStroke() {
+    const width = parseFloat(strokeWidth.value)
+    stroke = {
+      width: Number.isNaN(width) ? seededStroke.width : width,
+      depth: seededStroke.depth,
+      hidden: hiddenMode === 'auto' ? seededStroke.hidden : hiddenMode,
+    }
+    fatEdges.setStroke(stroke)
+    if (strokeWidthVal) strokeWidthVal.textContent = stroke.width.toFixed(1)
+  }
+  strokeWidth.addEventListener('input', updateStroke)
+  hiddenEdgesSelect.addEventListener('change', () => {
+    hiddenMode = hiddenEdgesSelect.value as HiddenEdges | 'auto'
+    updateStroke()
+  })
   autoRefresh.addEventListener('change', () => { setAutoRefresh(); if (autoRefresh.checked) refreshBeacon() })
   interval.addEventListener('input', () => { setAutoRefresh(); if (intervalVal) intervalVal.textContent = `${interval.value}s` })
   const refreshNow = document.getElementById('refreshNow') as HTMLButtonElement
-  refreshNow.addEventListener('click', refreshBeacon)
+  refreshNow.addEventListener('click', () => refreshBeacon())
+  // Transitions between seeds and shapes; 0 s swaps at once
+  morphDuration.addEventListener('input', () => {
+    morphSeconds = parseFloat(morphDuration.value)
+    morphDurationVal.textContent = `${morphSeconds.toFixed(1)}s`
+  })
+  morphEasingSelect.addEventListener('change', () => { morphEasing = morphEasingSelect.value as Easing })
+
+  // Timeline bindings
+  const prevRound = document.getElementById('prevRound') as HTMLButtonElement
+  const nextRound = document.getElementById('nextRound') as HTMLButtonElement
+  const latestRound = document.getElementById('latestRound') as HTMLButtonElement
+  prevRound.addEventListener('click', () => selectRound(Math.max(1, currentRound - 1)))
+  nextRound.addEventListener('click', () => selectRound(Math.min(parseInt(roundScrub.max, 10), currentRound + 1)))
+  latestRound.addEventListener('click', () => selectRound(null))
+  roundInput.addEventListener('change', () => {
+    const r = parseInt(roundInput.value, 10)
+    if (r >= 1) selectRound(r)
+  })
+  timeInput.addEventListener('change', async () => {
+    const ms = new Date(timeInput.value).getTime()
+    try {
+      selectRound(roundAt(ms, await source.info()))
+    } catch (err) {
+      console.error(err)
+      ui.status.textContent = 'No round at that time'
+    }
+  })
+  // Preview while dragging, fetch on release
+  roundScrub.addEventListener('input', async () => {
+    const r = parseInt(roundScrub.value, 10)
+    roundInput.value = String(r)
+    timeInput.value = toLocalDateTime(roundTime(await source.info(), r))
+  })
+  roundScrub.addEventListener('change', () => selectRound(parseInt(roundScrub.value, 10)))
+
+  // Gallery of recent rounds; picking one loads it here
+  const gallery = createGallery(document.getElementById('gallery') as HTMLElement, source, beaconCache, {
+    algorithm: () => Number(new URL(window.location.href).searchParams.get('version') ?? ALGORITHM_VERSION),
+    onPick: (round) => {
+      gallery.close()
+      selectRound(round)
+    },
+    onExport: (name, json) => downloadBlob(name, new Blob([json + '\n'], { type: 'application/json' })),
+    onError: (message) => { ui.status.textContent = message },
+  })
+  const galleryBtn = document.getElementById('galleryBtn') as HTMLButtonElement
+  galleryBtn.addEventListener('click', () => {
+    if (gallery.isOpen) gallery.close()
+    else gallery.open()
+  })
+
+  // Metadata export: JSON attributes describing the piece as rendered
+  const metadataBtn = document.getElementById('metadataBtn') as HTMLButtonElement
+  metadataBtn.addEventListener('click', () => {
+    if (!current) return
+    const json = JSON.stringify(buildMetadata(current.beacon, renderedParams()), null, 2)
+    downloadBlob(`tesseract-round-${current.beacon.round}.json`, new Blob([json], { type: 'application/json' }))
+  })
+
+  // Copy link: the hash holds the whole view, so the address bar itself becomes the permalink
+  const copyLinkBtn = document.getElementById('copyLinkBtn') as HTMLButtonElement
+  copyLinkBtn.addEventListener('click', async () => {
+    const url = new URL(window.location.href)
+    url.hash = encodePermalink(permalinkState())
+    window.history.replaceState(null, '', url)
+    try {
+      await navigator.clipboard.writeText(url.href)
+      ui.status.textContent = 'Link copied'
+    } catch (err) {
+      console.error(err)
+      ui.status.textContent = 'Link is in the address bar (clipboard unavailable)'
+    }
+  })
+
+  // A different link pasted into this tab: start over from it
+  window.addEventListener('hashchange', () => {
+    if (decodePermalink(window.location.hash)) window.location.reload()
+  })
 
-  // Flick button: add a quick burst to rotation and camera spin
+  // Flick: a quick burst to rotation and camera spin, from the button or on beats.
+  // Moves come from the round's flick stream and are logged so the performance can be replayed.
   const flickBtn = document.getElementById('flickBtn') as HTMLButtonElement
-  flickBtn.addEventListener('click', () => {
-    const rnd = () => (Math.random() - 0.5) * 2
-    // choose 1-3 random rotation planes to accentuate
-    const planes: (keyof RotationAngles4D)[] = ['xy', 'xz', 'xw', 'yz', 'yw', 'zw']
-    const picks = planes.sort(() => Math.random() - 0.5).slice(0, 2 + Math.floor(Math.random() * 3))
-    const burst = 1.0 + Math.random() * 1.4
-    for (const p of picks) angles[p] = angles[p] + rnd() * burst
-
-    // camera flick in random yaw/pitch
-    const start = performance.now()
-    const duration = 900
-    const yaw = (Math.random() - 0.5) * Math.PI
-    const pitch = (Math.random() - 0.5) * (Math.PI / 4)
-    const startPos = camera.position.clone()
-    const radius = startPos.length()
-    function spin(now: number) {
-      const t = Math.min(1, (now - start) / duration)
-      const a = t * yaw
-      const b = t * pitch
-      const x = radius * Math.cos(a)
-      const z = radius * Math.sin(a)
-      const y = radius * Math.sin(b)
-      camera.position.set(x, y, z)
-      camera.lookAt(0, 0, 0)
-      if (t < 1) requestAnimationFrame(spin)
+  flickBtn.addEventListener('click', flick)
+  function flick() {
+    // the log drives flicks during a replay
+    if (replay) return
+    const t = tAccum / 10
+    performanceLog.events.push({ t, type: 'flick' })
+    applyFlick(t)
+  }
+
+  function applyFlick(start: number) {
+    const move = nextFlick()
+    for (const p of ROTATION_PLANES) angles[p] += move.bumps[p] ?? 0
+    flickSweep = { move, start, radius: camera.position.length() }
+  }
+
+  const perfSaveBtn = document.getElementById('perfSaveBtn') as HTMLButtonElement
+  perfSaveBtn.addEventListener('click', () => {
+    const log = performanceLog
+    downloadBlob(`tesseract-round-${log.round}-performance.json`, new Blob([JSON.stringify(log, null, 2) + '\n'], { type: 'application/json' }))
+    ui.status.textContent = `Saved ${log.events.length} flick${log.events.length === 1 ? '' : 's'} of round ${log.round}`
+  })
+
+  // Replay starts the logged round from scratch, with the hand-set rotation cleared
+  const perfFile = document.getElementById('perfFile') as HTMLInputElement
+  perfFile.addEventListener('change', async () => {
+    const file = perfFile.files?.[0]
+    perfFile.value = ''
+    if (!file) return
+    try {
+      const log = performanceFromJSON(JSON.parse(await file.text()))
+      const url = new URL(window.location.href)
+      if (log.algorithm === ALGORITHM_VERSION) url.searchParams.delete('version')
+      else url.searchParams.set('version', String(log.algorithm))
+      window.history.replaceState(null, '', url)
+      await selectRound(log.round, true)
+      if (current?.beacon.round !== log.round) throw new Error(`round ${log.round} could not be loaded`)
+      planes.reset()
+      performanceLog = { ...log, events: [...log.events] }
+      replay = { events: log.events, next: 0 }
+      ui.status.textContent = `Replaying ${log.events.length} flicks of round ${log.round}`
+    } catch (err) {
+      console.error(err)
+      ui.status.textContent = `Replay failed: ${err instanceof Error ? err.message : err}`
     }
-    requestAnimationFrame(spin)
   })
 
+  // Audio-reactive mode
+  const AUDIO_FFT_SIZE = 2048
+  const audioSource = document.getElementById('audioSource') as HTMLSelectElement
+  const audioFile = document.getElementById('audioFile') as HTMLInputElement
+  const audioPreset = document.getElementById('audioPreset') as HTMLSelectElement
+  const audioSensitivity = document.getElementById('audioSensitivity') as HTMLInputElement
+  const audioMeter = document.getElementById('audioMeter') as HTMLElement
+  const audioMappingText = document.getElementById('audioMapping') as HTMLTextAreaElement
+  audioMappingText.value = JSON.stringify(audioMapping, null, 2)
+
+  async function startAudio(open: () => Promise<AudioInput>) {
+    stopAudio()
+    try {
+      const input = await open()
+      const analyzer = createAudioAnalyzer({ sampleRate: input.sampleRate, sensitivity: parseFloat(audioSensitivity.value) })
+      audio = { input, analyzer, block: new Float32Array(AUDIO_FFT_SIZE) }
+      ui.status.textContent = `Listening to ${input.label}`
+    } catch (err) {
+      console.error(err)
+      audioSource.value = 'off'
+      ui.status.textContent = `Audio failed: ${err instanceof Error ? err.message : err}`
+    }
+  }
+
+  function stopAudio() {
+    audio?.input.stop()
+    audio = null
+    audioMeter.textContent = ''
+  }
+
+  const METER = '▁▂▃▄▅▆▇█'
+  function updateAudioMeter(bands: Record<string, number>) {
+    audioMeter.textContent = Object.values(bands).map(v => METER[Math.min(METER.length - 1, Math.floor(v * METER.length))]).join('')
+  }
+
+  audioSource.addEventListener('change', () => {
+    if (audioSource.value === 'mic') startAudio(() => openMicrophone(AUDIO_FFT_SIZE))
+    else if (audioSource.value === 'file') audioFile.click()
+    else stopAudio()
+  })
+  audioFile.addEventListener('change', () => {
+    const file = audioFile.files?.[0]
+    if (file) startAudio(() => openAudioFile(file, AUDIO_FFT_SIZE))
+    else if (!audio) audioSource.value = 'off'
+    audioFile.value = ''
+  })
+  audioPreset.addEventListener('change', () => {
+    const preset = AUDIO_PRESETS[audioPreset.value]
+    if (!preset) return
+    audioMapping = preset
+    audioMappingText.value = JSON.stringify(preset, null, 2)
+  })
+  audioMappingText.addEventListener('change', () => {
+    try {
+      audioMapping = mappingFromJSON(JSON.parse(audioMappingText.value), audioMapping)
+      audioPreset.value = 'custom'
+      ui.status.textContent = 'Audio mapping updated'
+    } catch (err) {
+      ui.status.textContent = `Audio mapping: ${err instanceof Error ? err.message : err}`
+    }
+  })
+  audioSensitivity.addEventListener('input', () => audio?.analyzer.setSensitivity(parseFloat(audioSensitivity.value)))
+
+  // Swap clear color, materials and the composer pass chain for a render style
+  function setStyle(id: StyleId) {
+    style = id
+    const spec = STYLES[id]
+    applyBackground()
+    scene.background = spec.paper ? paper : null
+    material.blending = spec.blending
+    material.needsUpdate = true
+    glowMat.blending = spec.blending
+    glowMat.needsUpdate = true
+    faces.material.blending = spec.blending
+    faces.material.needsUpdate = true
+    gpu.lineMaterial.blending = spec.blending
+    gpu.pointMaterial.blending = spec.blending
+    fatEdges.material.blending = spec.blending
+    // lines and glow are shown by renderFrame, which picks the CPU or GPU copy
+    tubes.mesh.visible = spec.edges === 'tubes'
+    stars.visible = spec.stars
+    bloom.enabled = spec.bloom
+    film.enabled = spec.film
+    rgbShift.enabled = spec.rgbShift
+    afterimage.enabled = trail && spec.trail
+  }
+
+  // One option per cell of the current shape, e.g. the tesseract's 8 cubes
+  function populateCells(count: number) {
+    cellSelect.replaceChildren(new Option('none', '-1'), ...Array.from({ length: count }, (_, i) => new Option(`cell ${i + 1}`, String(i))))
+    faces.setHighlight(-1)
+    schlegelCell = 0
+  }
+
+  // Faces have no meaning in a cross-section, so they are hidden while slicing
+  function setProjection(mode: ProjectionMode) {
+    projection = mode
+    faces.setSuppressed(mode === 'slice')
+  }
+
+  // The gradient as a strip, then the palette's background and star tint when it sets them
   function updatePalettePreview() {
     if (!palettePreview) return
-    const samples = [0.0, 0.25, 0.5, 0.75, 1.0]
-    palettePreview.innerHTML = samples.map((t) => {
-      const { h, s, l } = paletteHSL(baseHue, t, palette)
-      const color = new THREE.Color().setHSL(h, s, l)
-      const hex = `#${color.getHexString()}`
-      return `<i style="background:${hex}"></i>`
-    }).join('')
+    const def = getPalette(palette)
+    const color = new THREE.Color()
+    const stops = Array.from({ length: 9 }, (_, i) => `#${paletteColor(def, baseHue, i / 8, color).getHexString()}`)
+    const extras = [def.background && ['background', def.background], def.starTint && ['star tint', def.starTint]].filter(Boolean) as string[][]
+    palettePreview.innerHTML = `<i class="gradient" style="background:linear-gradient(90deg, ${stops.join(', ')})"></i>`
+      + extras.map(([title, hex]) => `<i title="${title}" style="background:${hex}"></i>`).join('')
   }
   updatePalettePreview()
 
-// Palette mapping
-function paletteHSL(baseHue: number, t: number, palette: 'ocean' | 'pastel' | 'dusk' | 'sunrise' | 'aurora' | 'rainforest' | 'candy' | 'fire' | 'ice' | 'galaxy' | 'mono' | 'vivid'): { h: number; s: number; l: number } {
-  const base = (baseHue / 360)
-  switch (palette) {
-    case 'ocean': {
-      const h = (base + 0.58 + t * 0.08) % 1
-      return { h, s: 0.45 + t * 0.15, l: 0.45 + t * 0.1 }
-    }
-    case 'pastel': {
-      const h = (base + 0.1 + t * 0.2) % 1
-      return { h, s: 0.35, l: 0.65 }
-    }
-    case 'dusk': {
-      const h = (base + 0.8 + t * 0.12) % 1
-      return { h, s: 0.5, l: 0.4 + t * 0.1 }
-    }
-    case 'sunrise': {
-      const h = (base + 0.0 + t * 0.15) % 1
-      return { h, s: 0.6, l: 0.55 }
-    }
-    case 'aurora': {
-      const h = (base + 0.4 + t * 0.5) % 1
-      return { h, s: 0.6, l: 0.5 }
-    }
-    case 'rainforest': {
-      const h = (base + 0.33 + t * 0.1) % 1
-      return { h, s: 0.5, l: 0.45 }
-    }
-    case 'candy': {
-      const h = (base + t * 0.5) % 1
-      return { h, s: 0.9, l: 0.6 }
-    }
-    case 'fire': {
-      const h = (base + 0.02 + t * 0.08) % 1
-      return { h, s: 0.85, l: 0.5 }
-    }
-    case 'ice': {
-      const h = (base + 0.55 + t * 0.08) % 1
-      return { h, s: 0.35, l: 0.7 }
-    }
-    case 'galaxy': {
-      const h = (base + 0.7 + t * 0.4) % 1
-      return { h, s: 0.7, l: 0.45 }
-    }
-    case 'mono': {
-      return { h: base, s: 0.05, l: 0.6 }
-    }
-    case 'vivid':
-    default: {
-      const h = (base + t * 0.35) % 1
-      return { h, s: 0.85, l: 0.55 }
-    }
+  function applyPalette() {
+    updatePalettePreview()
+    applyBackground()
+    seedStars()
   }
-}
 
-function paletteBaseHue(baseHue: number, seed: number, palette: 'ocean' | 'pastel' | 'dusk' | 'sunrise' | 'aurora' | 'rainforest' | 'candy' | 'fire' | 'ice' | 'galaxy' | 'mono' | 'vivid'): number {
-  const base = baseHue
-  // introduce slight per-edge variance for more painterly look
-  const jitter = ((Math.sin(seed * 12.9898) * 43758.5453) % 1 + 1) % 1
-  const deg = (base + jitter * (palette === 'mono' ? 0 : 40)) % 360
-  return deg
-}
+  // A palette's own background replaces the style's clear color; ink keeps its paper
+  function applyBackground() {
+    const spec = STYLES[style]
+    renderer.setClearColor(spec.paper ? spec.background : getPalette(palette).background ?? spec.background, 1)
+  }
 
-function applyStyle(style: 'nebula' | 'glass' | 'ink' | 'lines', colors: Float32Array, _positions: Float32Array) {
-  switch (style) {
-    case 'nebula': {
-      // soften lines toward luminance for a smoky feel
-      for (let i = 0; i < colors.length; i += 3) {
-        const r = colors[i], g = colors[i + 1], b = colors[i + 2]
-        const l = (r + g + b) / 3
-        colors[i] = r * 0.9 + l * 0.1
-        colors[i + 1] = g * 0.9 + l * 0.1
-        colors[i + 2] = b * 0.9 + l * 0.1
-      }
-      break
-    }
-    case 'glass': {
-      for (let i = 0; i < colors.length; i += 3) {
-        colors[i] = Math.min(1, colors[i] * 1.25)
-        colors[i + 1] = Math.min(1, colors[i + 1] * 1.25)
-        colors[i + 2] = Math.min(1, colors[i + 2] * 1.25)
-      }
-      break
+  // Background stars are seeded per round, tinted by the palette
+  function seedStars() {
+    if (!current) return
+    starGeo.setDrawRange(0, writeStars(current.params.stars, baseHue, starPositions, starColors, getPalette(palette).starTint))
+    starGeo.attributes.position.needsUpdate = true
+    starGeo.attributes.color.needsUpdate = true
+    // a palette change mid-transition retargets the starfield blend
+    if (morph) morph.stars = { ...morph.stars, to: starPositions.slice(), toColors: starColors.slice(), toCount: starGeo.drawRange.count }
+  }
+
+  // Camera and starfield at the transition's current progress; finishes it when the time is up
+  function applyMorph() {
+    if (!morph) return
+    const done = morph.elapsed >= morphSeconds
+    const u = (morph.u = EASINGS[morphEasing](done ? 1 : morph.elapsed / morphSeconds))
+    const cam = morph.camera
+    camera.position.lerpVectors(cam.from, cam.to, u)
+    camera.fov = cam.fromFov + (cam.toFov - cam.fromFov) * u
+    camera.lookAt(0, 0, 0)
+    camera.updateProjectionMatrix()
+    // stars missing at one end fade through black, which the additive blend makes transparent
+    const s = morph.stars
+    const count = Math.max(s.fromCount, s.toCount)
+    for (let i = 0; i < count * 3; i++) {
+      const star = Math.floor(i / 3)
+      const from = star < s.fromCount, to = star < s.toCount
+      starPositions[i] = from && to ? s.from[i] + (s.to[i] - s.from[i]) * u : to ? s.to[i] : s.from[i]
+      starColors[i] = (from ? s.fromColors[i] * (1 - u) : 0) + (to ? s.toColors[i] * u : 0)
     }
-    case 'ink': {
-      for (let i = 0; i < colors.length; i += 3) {
-        const l = (colors[i] + colors[i + 1] + colors[i + 2]) / 3
-        colors[i] = colors[i + 1] = colors[i + 2] = l
-      }
-      break
+    starGeo.setDrawRange(0, count)
+    starGeo.attributes.position.needsUpdate = true
+    starGeo.attributes.color.needsUpdate = true
+    if (done) {
+      morph = null
+      faces.setSuppressed(projection === 'slice')
+      seedStars()
     }
-    case 'lines':
-    default:
-      break
   }
-}
+
+  // Register an edited or imported palette and offer it in the select
+  function addPalette(def: PaletteDef) {
+    registerPalette(def)
+    const label = def.name ?? def.id
+    const option = [...paletteSelect.options].find(o => o.value === def.id)
+    if (option) option.textContent = label
+    else paletteSelect.add(new Option(label, def.id))
+  }
+
+  function usePalette(def: PaletteDef) {
+    addPalette(def)
+    paletteSelect.value = def.id
+    paletteMode = def.id
+    palette = def.id
+    applyPalette()
+  }
+
   // Cleanup on page unload
   window.addEventListener('beforeunload', () => {
-    stopDrandClient(client)
-    window.clearInterval(refreshInterval)
+    source.stop()
+    stopAudio()
+    roundClock.stop()
   })
 }
 
@@ -0,0 +1,185 @@
+import * as THREE from 'three'
+import { projectVertices, slicePolytope, type Polytope4D, type Projected, type ProjectionMode, type RotationAngles4D } from './geometry4d'
+import { loopFrequency, rotationAt, transformVertices4D, type Mat4x4 } from './rotation4d'
+import { paletteBaseHue, paletteColor, type PaletteDef } from './palette'
+import type { ArtParams } from './traits'
+
+// Seeding, per-frame geometry and colors for one piece, with no DOM or WebGL.
+// The browser app feeds these into three.js buffers; the CLI rasterizes them in software.
+
+// rad/s of the optional isoclinic double rotation
+export const ISOCLINIC_RATE = 0.3
+export const MAX_STARS = 1500
+
+export function mulberry32(seed: number) {
+  let t = seed >>> 0
+  return function () {
+    t += 0x6D2B79F5
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r)
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Everything that decides where the wireframe is at a given animation time
+export type ViewState = {
+  poly: Polytope4D
+  angles: RotationAngles4D
+  rates: RotationAngles4D
+  isoclinic: boolean
+  projection: ProjectionMode
+  projectionDistance: number
+  // slicing hyperplane offset as a fraction of the circumradius
+  sliceLevel: number
+  sweep: boolean
+  // the cell a Schlegel diagram looks through
+  schlegelCell: number
+  // while recording a seamless loop: its length in animation seconds, so oscillators snap to it
+  loopPeriod: number | null
+}
+
+// `projected` has every vertex (faces use it); `points`/`segments` is what gets drawn,
+// which a cross-section replaces with the polyhedron cut out by w = level
+export type FrameGeometry = {
+  projected: Projected[]
+  points: Projected[]
+  segments: Array<[number, number]>
+}
+
+// The seeded view, as the piece renders with no UI overrides
+export function viewFromParams(params: ArtParams, poly: Polytope4D): ViewState {
+  return {
+    poly,
+    angles: { ...params.angles },
+    rates: { ...params.rates },
+    isoclinic: false,
+    projection: params.projection.mode,
+    projectionDistance: params.projection.distance,
+    sliceLevel: params.projection.slice,
+    sweep: false,
+    schlegelCell: 0,
+    loopPeriod: null,
+  }
+}
+
+export function oscillator(freq: number, loopPeriod: number | null): number {
+  return loopPeriod ? loopFrequency(freq, loopPeriod) : freq
+}
+
+const cellCache = new WeakMap<Polytope4D, number[][]>()
+const radiusCache = new WeakMap<Polytope4D, number>()
+
+// Vertex indices of each 3-cell, gathered from its faces
+export function cellVertices(poly: Polytope4D): number[][] {
+  let cells = cellCache.get(poly)
+  if (!cells) {
+    const faces = poly.faces ?? []
+    cells = (poly.cells ?? []).map(cell => {
+      const set = new Set<number>()
+      for (const f of cell) for (const v of faces[f]) set.add(v)
+      return [...set]
+    })
+    cellCache.set(poly, cells)
+  }
+  return cells
+}
+
+export function circumradius(poly: Polytope4D): number {
+  let r = radiusCache.get(poly)
+  if (r === undefined) {
+    r = Math.max(...poly.vertices.map(v => Math.hypot(v.x, v.y, v.z, v.w)))
+    radiusCache.set(poly, r)
+  }
+  return r
+}
+
+// Pose is a pure function of animation time: seeded base angles plus rates integrated over t
+export function frameRotation(view: ViewState, tau: number): Mat4x4 {
+  return rotationAt({ base: view.angles, rates: view.rates, isoclinicRate: view.isoclinic ? oscillator(ISOCLINIC_RATE, view.loopPeriod) : 0 }, tau)
+}
+
+// Geometry at animation time `tau` (seconds at the seeded rates)
+export function frameGeometry(view: ViewState, tau: number): FrameGeometry {
+  const { poly, loopPeriod } = view
+  const rotation = frameRotation(view, tau)
+  const rotated = transformVertices4D(rotation, poly.vertices)
+  // Project and color by w (stored in t)
+  const projected = projectVertices(rotated, { mode: view.projection, distance: view.projectionDistance, cells: cellVertices(poly), cell: view.schlegelCell })
+  if (view.projection === 'slice') {
+    const level = (view.sweep ? Math.sin(oscillator(0.6, loopPeriod) * tau) : view.sliceLevel) * circumradius(poly)
+    const section = slicePolytope(rotated, poly.edges, poly.faces ?? [], level)
+    return { projected, points: section.points, segments: section.segments }
+  }
+  return { projected, points: projected, segments: poly.edges }
+}
+
+const col = new THREE.Color()
+
+// Line-segment positions and palette colors (two endpoints per segment), and optionally each endpoint's depth t
+export function writeEdges(geom: FrameGeometry, baseHue: number, palette: PaletteDef, positions: Float32Array, colors: Float32Array, depths?: Float32Array) {
+  let ptr = 0
+  let cptr = 0
+  for (let i = 0; i < geom.segments.length; i++) {
+    const [a, b] = geom.segments[i]
+    const va = geom.points[a]
+    const vb = geom.points[b]
+    if (depths) { depths[i * 2] = va.t; depths[i * 2 + 1] = vb.t }
+    positions[ptr++] = va.x
+    positions[ptr++] = va.y
+    positions[ptr++] = va.z
+    positions[ptr++] = vb.x
+    positions[ptr++] = vb.y
+    positions[ptr++] = vb.z
+
+    paletteColor(palette, paletteBaseHue(baseHue, i + a, palette), va.t, col)
+    colors[cptr++] = col.r; colors[cptr++] = col.g; colors[cptr++] = col.b
+    paletteColor(palette, paletteBaseHue(baseHue, i + b, palette), vb.t, col)
+    colors[cptr++] = col.r; colors[cptr++] = col.g; colors[cptr++] = col.b
+  }
+}
+
+// Vertex glow positions and colors, with a slow per-vertex flicker
+export function writeGlow(geom: FrameGeometry, baseHue: number, palette: PaletteDef, tau: number, loopPeriod: number | null, positions: Float32Array, colors: Float32Array) {
+  for (let vi = 0, p = 0, c = 0; vi < geom.points.length; vi++) {
+    const v = geom.points[vi]
+    positions[p++] = v.x; positions[p++] = v.y; positions[p++] = v.z
+    paletteColor(palette, paletteBaseHue(baseHue, vi, palette), v.t, col)
+    const flicker = 0.05 * Math.sin(oscillator(5, loopPeriod) * tau + vi)
+    col.offsetHSL(0, flicker, flicker * 0.5)
+    colors[c++] = col.r; colors[c++] = col.g; colors[c++] = col.b
+  }
+}
+
+// Seeded background stars in a sphere shell, pulled towards a palette's star tint if it has one;
+// returns how many were written (at most MAX_STARS)
+export function writeStars(stars: ArtParams['stars'], baseHue: number, positions: Float32Array, colors: Float32Array, tint?: string): number {
+  const tintColor = tint ? new THREE.Color(tint) : null
+  const rand = mulberry32(stars.seed)
+  const count = Math.min(MAX_STARS, stars.count, positions.length / 3)
+  for (let i = 0, p = 0, c = 0; i < count; i++) {
+    const r = 6 * Math.pow(rand(), 0.6)
+    const theta = rand() * Math.PI * 2
+    const phi = Math.acos(2 * rand() - 1)
+    positions[p++] = r * Math.sin(phi) * Math.cos(theta)
+    positions[p++] = r * Math.sin(phi) * Math.sin(theta)
+    positions[p++] = r * Math.cos(phi)
+    col.setHSL(((baseHue / 360) + rand() * 0.2) % 1, 0.6, 0.5)
+    if (tintColor) col.lerp(tintColor, 0.7)
+    colors[c++] = col.r; colors[c++] = col.g; colors[c++] = col.b
+  }
+  return count
+}
+
+// Seeded camera pose, relative to the origin the orbit controls circle
+export function placeCamera(camera: THREE.PerspectiveCamera, pose: ArtParams['camera']) {
+  camera.fov = pose.fov
+  camera.position.setFromSphericalCoords(pose.distance, Math.PI / 2 - pose.pitch, pose.yaw)
+  camera.lookAt(0, 0, 0)
+  camera.updateProjectionMatrix()
+}
+
+// Subtle time-based pulses: bloom added on top of the base strength, and the RGB shift amount
+export function pulses(tau: number, loopPeriod: number | null): { bloom: number; rgbShift: number } {
+  const lfo = 0.2 + 0.2 * Math.sin(oscillator(3, loopPeriod) * tau)
+  return { bloom: lfo * 0.5, rgbShift: 0.0008 + 0.0006 * (1 + Math.sin(oscillator(5, loopPeriod) * tau)) }
+}
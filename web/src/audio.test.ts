@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { BANDS, bandLevels, createAudioAnalyzer, magnitudeSpectrum, type BandId } from './audio'
+
+const SAMPLE_RATE = 48000
+const BLOCK = 2048
+const DT = BLOCK / SAMPLE_RATE
+
+function sine(hz: number, amplitude = 1, n = BLOCK): Float32Array {
+  return Float32Array.from({ length: n }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE))
+}
+
+// white noise from a fixed seed (mulberry32), so runs agree
+function noise(seed: number, amplitude = 0.8, n = BLOCK): Float32Array {
+  let a = seed
+  const random = () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  return Float32Array.from({ length: n }, () => amplitude * (random() * 2 - 1))
+}
+
+const loudest = (levels: Record<BandId, number>) => (Object.keys(levels) as BandId[]).reduce((a, b) => (levels[b] > levels[a] ? b : a))
+
+describe('magnitudeSpectrum', () => {
+  it('peaks near 1 at the bin of a full-scale sine', () => {
+    const bin = 40
+    const spectrum = magnitudeSpectrum(sine((bin * SAMPLE_RATE) / BLOCK))
+    expect(spectrum.length).toBe(BLOCK / 2 + 1)
+    expect(spectrum[bin]).toBeCloseTo(1, 2)
+    expect(spectrum[bin + 10]).toBeLessThan(1e-3)
+  })
+
+  it('refuses a block that is not a power of two', () => {
+    expect(() => magnitudeSpectrum(new Float32Array(1000))).toThrow(/power of two/)
+  })
+})
+
+describe('bandLevels', () => {
+  const cases: Array<[BandId, number]> = [['sub', 40], ['bass', 120], ['lowMid', 350], ['mid', 1000], ['highMid', 4000], ['treble', 10000]]
+
+  it.each(cases)('puts a sine in %s (%d Hz) into that band', (band, hz) => {
+    const levels = bandLevels(magnitudeSpectrum(sine(hz)), SAMPLE_RATE)
+    expect(hz).toBeGreaterThanOrEqual(BANDS[band][0])
+    expect(loudest(levels)).toBe(band)
+    expect(levels[band]).toBeGreaterThan(0.9)
+  })
+
+  it('keeps distant bands quiet', () => {
+    const levels = bandLevels(magnitudeSpectrum(sine(120)), SAMPLE_RATE)
+    for (const band of ['mid', 'highMid', 'treble'] as const) expect(levels[band]).toBeLessThan(0.2)
+  })
+
+  it('reads silence as zero and a quieter sine lower', () => {
+    expect(Object.values(bandLevels(magnitudeSpectrum(new Float32Array(BLOCK)), SAMPLE_RATE))).toEqual([0, 0, 0, 0, 0, 0])
+    const full = bandLevels(magnitudeSpectrum(sine(1000)), SAMPLE_RATE).mid
+    const quiet = bandLevels(magnitudeSpectrum(sine(1000, 0.01)), SAMPLE_RATE).mid
+    // -40 dB on the 60 dB scale
+    expect(full - quiet).toBeCloseTo(40 / 60, 1)
+  })
+})
+
+describe('createAudioAnalyzer', () => {
+  // `bursts` noise bursts one block long, every `gap` blocks, after a second of silence
+  function run(bursts: number, gap: number, sensitivity?: number): number {
+    const analyzer = createAudioAnalyzer({ sampleRate: SAMPLE_RATE, sensitivity })
+    let beats = 0
+    const blocks = Math.round(1 / DT) + bursts * gap
+    for (let i = 0; i < blocks; i++) {
+      const since = i - Math.round(1 / DT)
+      const block = since >= 0 && since % gap === 0 ? noise(i) : new Float32Array(BLOCK)
+      if (analyzer.analyze(block, DT).beat) beats++
+    }
+    return beats
+  }
+
+  it('counts each noise burst as a beat', () => {
+    expect(run(8, 12)).toBe(8)
+  })
+
+  it('counts bursts closer than the shortest beat interval once', () => {
+    // every other block is ~85 ms apart, under the default 250 ms
+    const beats = run(12, 2)
+    expect(beats).toBeGreaterThan(0)
+    expect(beats).toBeLessThanOrEqual(Math.ceil((12 * 2 * DT) / 0.25))
+  })
+
+  it('finds no beats in a steady tone', () => {
+    const analyzer = createAudioAnalyzer({ sampleRate: SAMPLE_RATE })
+    const tone = sine(440, 0.5)
+    let beats = 0
+    for (let i = 0; i < 60; i++) if (analyzer.analyze(tone, DT).beat) beats++
+    // the jump from nothing to the tone comes before there is history to judge it by
+    expect(beats).toBe(0)
+  })
+
+  it('smooths band levels with a fast attack and slow release', () => {
+    const analyzer = createAudioAnalyzer({ sampleRate: SAMPLE_RATE })
+    const attack = analyzer.analyze(sine(120), DT).bands.bass
+    const release = analyzer.analyze(new Float32Array(BLOCK), DT).bands.bass
+    expect(attack).toBeGreaterThan(0.9)
+    expect(release).toBeGreaterThan(0.5)
+    expect(release).toBeLessThan(attack)
+  })
+
+  it('ignores bursts below a raised sensitivity', () => {
+    // all but the first, which follows pure silence with no spread to measure against
+    expect(run(8, 12, 100)).toBe(1)
+  })
+})
@@ -0,0 +1,208 @@
+import type { RotationAngles4D } from './geometry4d'
+
+// Sound analysis for the audio-reactive mode, on plain sample buffers so it runs the same on a
+// live microphone and on synthetic test signals: spectrum -> band levels -> onsets -> modulation.
+
+export type BandId = 'sub' | 'bass' | 'lowMid' | 'mid' | 'highMid' | 'treble'
+
+// Hz ranges, lower edge inclusive
+export const BANDS: Record<BandId, [number, number]> = {
+  sub: [20, 60],
+  bass: [60, 250],
+  lowMid: [250, 500],
+  mid: [500, 2000],
+  highMid: [2000, 6000],
+  treble: [6000, 20000],
+}
+
+const BAND_IDS = Object.keys(BANDS) as BandId[]
+const PLANES: Array<keyof RotationAngles4D> = ['xy', 'xz', 'xw', 'yz', 'yw', 'zw']
+
+// Hann-windowed magnitude spectrum of a power-of-two block; a full-scale sine peaks near 1
+export function magnitudeSpectrum(samples: Float32Array): Float32Array {
+  const n = samples.length
+  if (n < 2 || (n & (n - 1)) !== 0) throw new Error(`FFT size must be a power of two, got ${n}`)
+  const re = new Float64Array(n)
+  const im = new Float64Array(n)
+  for (let i = 0; i < n; i++) re[i] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n))
+  // iterative radix-2: bit-reversal, then butterflies
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) { [re[i], re[j]] = [re[j], re[i]]; [im[i], im[j]] = [im[j], im[i]] }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(step * k), wi = Math.sin(step * k)
+        const a = start + k, b = a + size / 2
+        const tr = re[b] * wr - im[b] * wi, ti = re[b] * wi + im[b] * wr
+        re[b] = re[a] - tr; im[b] = im[a] - ti
+        re[a] += tr; im[a] += ti
+      }
+    }
+  }
+  const out = new Float32Array(n / 2 + 1)
+  for (let k = 0; k <= n / 2; k++) out[k] = Math.hypot(re[k], im[k]) / (n / 4)
+  return out
+}
+
+// 0..1 per band: the loudest bin, on a 60 dB scale below full scale
+export function bandLevels(spectrum: Float32Array, sampleRate: number): Record<BandId, number> {
+  const binHz = sampleRate / ((spectrum.length - 1) * 2)
+  const out = {} as Record<BandId, number>
+  for (const id of BAND_IDS) {
+    const [lo, hi] = BANDS[id]
+    let peak = 0
+    for (let k = Math.max(1, Math.ceil(lo / binHz)); k < Math.min(spectrum.length, hi / binHz); k++) peak = Math.max(peak, spectrum[k])
+    out[id] = Math.min(1, Math.max(0, (20 * Math.log10(peak + 1e-9) + 60) / 60))
+  }
+  return out
+}
+
+export type AudioFrame = {
+  // smoothed 0..1 band levels
+  bands: Record<BandId, number>
+  // positive spectral change since the previous block
+  flux: number
+  beat: boolean
+}
+
+export type AudioAnalyzerOptions = {
+  sampleRate: number
+  // how far above the recent average flux must jump to count as a beat, in standard deviations
+  sensitivity?: number
+  // shortest gap between beats in seconds
+  minBeatInterval?: number
+}
+
+export type AudioAnalyzer = {
+  analyze(samples: Float32Array, dt: number): AudioFrame
+  setSensitivity(value: number): void
+}
+
+export function createAudioAnalyzer(opts: AudioAnalyzerOptions): AudioAnalyzer {
+  let sensitivity = opts.sensitivity ?? 1.5
+  const minInterval = opts.minBeatInterval ?? 0.25
+  const smoothed = Object.fromEntries(BAND_IDS.map(id => [id, 0])) as Record<BandId, number>
+  let previous: Float32Array | null = null
+  // about a second of flux values for the adaptive threshold
+  const history: number[] = []
+  let sinceBeat = Infinity
+
+  return {
+    analyze(samples, dt) {
+      const spectrum = magnitudeSpectrum(samples)
+      const levels = bandLevels(spectrum, opts.sampleRate)
+      // fast attack, ~150 ms release
+      const release = Math.exp(-dt / 0.15)
+      for (const id of BAND_IDS) smoothed[id] = levels[id] > smoothed[id] ? levels[id] : smoothed[id] * release + levels[id] * (1 - release)
+
+      let flux = 0
+      if (previous && previous.length === spectrum.length) {
+        for (let k = 1; k < spectrum.length; k++) {
+          const d = Math.log1p(100 * spectrum[k]) - Math.log1p(100 * previous[k])
+          if (d > 0) flux += d
+        }
+        flux /= spectrum.length
+      }
+      previous = spectrum
+
+      const mean = history.length ? history.reduce((s, v) => s + v, 0) / history.length : 0
+      const std = history.length ? Math.sqrt(history.reduce((s, v) => s + (v - mean) ** 2, 0) / history.length) : 0
+      sinceBeat += dt
+      // silence and steady tones have near-zero flux; the floor keeps noise from triggering
+      const beat = history.length >= 4 && flux > 0.01 && flux > mean + sensitivity * std && sinceBeat >= minInterval
+      if (beat) sinceBeat = 0
+      history.push(flux)
+      while (history.length > Math.max(8, Math.round(1 / Math.max(dt, 1e-3)))) history.shift()
+      return { bands: { ...smoothed }, flux, beat }
+    },
+    setSensitivity(value) {
+      sensitivity = value
+    },
+  }
+}
+
+type BandGain = { band: BandId; gain: number }
+
+// Which band drives what. Rate gains speed a plane up (1 = twice as fast at full level);
+// bloom and RGB shift gains are added at full level; trail decay is stretched by 1 + gain.
+export type AudioMapping = {
+  planes: Record<keyof RotationAngles4D, BandGain>
+  bloom: BandGain
+  rgbShift: BandGain
+  trail: BandGain
+  flickOnBeat: boolean
+}
+
+export type AudioModulation = {
+  // extra angular velocity as a fraction of each plane's seeded rate
+  rateBoost: RotationAngles4D
+  bloom: number
+  rgbShift: number
+  trailScale: number
+  beat: boolean
+}
+
+export const AUDIO_PRESETS: Record<string, AudioMapping> = {
+  // low end turns the w planes, highs the ordinary 3D ones
+  balanced: {
+    planes: { xy: { band: 'mid', gain: 0.8 }, xz: { band: 'highMid', gain: 0.8 }, xw: { band: 'bass', gain: 1.5 }, yz: { band: 'treble', gain: 0.8 }, yw: { band: 'lowMid', gain: 1.2 }, zw: { band: 'sub', gain: 1.5 } },
+    bloom: { band: 'bass', gain: 3 },
+    rgbShift: { band: 'treble', gain: 0.004 },
+    trail: { band: 'mid', gain: 1 },
+    flickOnBeat: true,
+  },
+  // everything follows the kick
+  bass: {
+    planes: Object.fromEntries(PLANES.map(p => [p, { band: 'bass', gain: 2 }])) as Record<keyof RotationAngles4D, BandGain>,
+    bloom: { band: 'sub', gain: 5 },
+    rgbShift: { band: 'bass', gain: 0.003 },
+    trail: { band: 'bass', gain: 2 },
+    flickOnBeat: true,
+  },
+  // calm rotation, sparkle on the top end, no flicks
+  ambient: {
+    planes: Object.fromEntries(PLANES.map(p => [p, { band: 'lowMid', gain: 0.4 }])) as Record<keyof RotationAngles4D, BandGain>,
+    bloom: { band: 'highMid', gain: 2 },
+    rgbShift: { band: 'treble', gain: 0.002 },
+    trail: { band: 'mid', gain: 3 },
+    flickOnBeat: false,
+  },
+}
+
+export function modulation(frame: AudioFrame, mapping: AudioMapping): AudioModulation {
+  const level = (g: BandGain) => frame.bands[g.band] * g.gain
+  return {
+    rateBoost: Object.fromEntries(PLANES.map(p => [p, level(mapping.planes[p])])) as unknown as RotationAngles4D,
+    bloom: level(mapping.bloom),
+    rgbShift: level(mapping.rgbShift),
+    trailScale: 1 + level(mapping.trail),
+    beat: frame.beat && mapping.flickOnBeat,
+  }
+}
+
+// Check a user-edited mapping; anything missing comes from `fallback`
+export function mappingFromJSON(data: unknown, fallback: AudioMapping = AUDIO_PRESETS.balanced): AudioMapping {
+  const json = data as Partial<Record<keyof AudioMapping, unknown>>
+  if (!json || typeof json !== 'object') throw new Error('audio mapping must be an object')
+  const bandGain = (where: string, v: unknown, def: BandGain): BandGain => {
+    if (v === undefined) return def
+    const g = v as BandGain
+    if (!g || !BAND_IDS.includes(g.band) || typeof g.gain !== 'number' || !Number.isFinite(g.gain)) {
+      throw new Error(`${where} needs a band (${BAND_IDS.join(', ')}) and a numeric gain`)
+    }
+    return { band: g.band, gain: g.gain }
+  }
+  const planes = (json.planes ?? {}) as Partial<Record<keyof RotationAngles4D, unknown>>
+  return {
+    planes: Object.fromEntries(PLANES.map(p => [p, bandGain(`planes.${p}`, planes[p], fallback.planes[p])])) as Record<keyof RotationAngles4D, BandGain>,
+    bloom: bandGain('bloom', json.bloom, fallback.bloom),
+    rgbShift: bandGain('rgbShift', json.rgbShift, fallback.rgbShift),
+    trail: bandGain('trail', json.trail, fallback.trail),
+    flickOnBeat: typeof json.flickOnBeat === 'boolean' ? json.flickOnBeat : fallback.flickOnBeat,
+  }
+}
@@ -0,0 +1,62 @@
+// Web Audio sources for the audio-reactive mode; analysis itself lives in audio.ts
+
+export type AudioInput = {
+  label: string
+  sampleRate: number
+  // the most recent block of samples (its length is the FFT size)
+  read(into: Float32Array): void
+  stop(): void
+}
+
+function createTap(ctx: AudioContext, fftSize: number): AnalyserNode {
+  const analyser = ctx.createAnalyser()
+  analyser.fftSize = fftSize
+  return analyser
+}
+
+// Live input; not routed to the speakers, which would feed back
+export async function openMicrophone(fftSize: number): Promise<AudioInput> {
+  if (!navigator.mediaDevices?.getUserMedia) throw new Error('microphone input is not available here')
+  // processing meant for calls flattens exactly the dynamics the visuals react to
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false } })
+  const ctx = new AudioContext()
+  const analyser = createTap(ctx, fftSize)
+  ctx.createMediaStreamSource(stream).connect(analyser)
+  return {
+    label: stream.getAudioTracks()[0]?.label || 'microphone',
+    sampleRate: ctx.sampleRate,
+    read: (into) => analyser.getFloatTimeDomainData(into),
+    stop: () => {
+      stream.getTracks().forEach(track => track.stop())
+      ctx.close()
+    },
+  }
+}
+
+// Plays a local file on a loop and analyses what is heard
+export async function openAudioFile(file: File, fftSize: number): Promise<AudioInput> {
+  const url = URL.createObjectURL(file)
+  const element = new Audio(url)
+  element.loop = true
+  const ctx = new AudioContext()
+  const analyser = createTap(ctx, fftSize)
+  ctx.createMediaElementSource(element).connect(analyser)
+  analyser.connect(ctx.destination)
+  try {
+    await element.play()
+  } catch (err) {
+    ctx.close()
+    URL.revokeObjectURL(url)
+    throw err
+  }
+  return {
+    label: file.name,
+    sampleRate: ctx.sampleRate,
+    read: (into) => analyser.getFloatTimeDomainData(into),
+    stop: () => {
+      element.pause()
+      ctx.close()
+      URL.revokeObjectURL(url)
+    },
+  }
+}
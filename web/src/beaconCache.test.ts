@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it, vi } from 'vitest'
+import { openBeaconCache, withBeaconCache } from './beaconCache'
+import { createFixtureSource, type BeaconFixture, type BeaconSource } from './beacons'
+import { CHAINS } from './drand'
+
+function loadFixture(name: string): BeaconFixture {
+  return JSON.parse(readFileSync(new URL(`../fixtures/${name}.json`, import.meta.url), 'utf8'))
+}
+
+describe('withBeaconCache', () => {
+  // no IndexedDB under node: the session store, which is keyed the same way
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  const fixture = loadFixture('testnet-unchained')
+  const { info } = fixture
+
+  it('serves a verified round again from the cache', async () => {
+    const cache = await openBeaconCache()
+    const inner = createFixtureSource(fixture, 'drand:custom', { chainHash: info.hash, publicKey: info.public_key })
+    const forRound = vi.spyOn(inner, 'forRound')
+    const source = withBeaconCache(inner, cache)
+    await source.forRound(20000)
+    await new Promise(resolve => setTimeout(resolve))
+    expect(await source.forRound(20000)).toMatchObject({ round: 20000, verified: true })
+    expect(forRound).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps chains sharing a source id apart', async () => {
+    const cache = await openBeaconCache()
+    const pinned = withBeaconCache(createFixtureSource(fixture, 'drand:mainnet', { chainHash: info.hash, publicKey: info.public_key }), cache)
+    await pinned.info()
+    await pinned.forRound(20000)
+    await new Promise(resolve => setTimeout(resolve))
+    // the same id, as a ?chain=mainnet link would give it, for the real mainnet
+    const mainnet: BeaconSource = {
+      id: 'drand:mainnet',
+      chainHash: CHAINS.mainnet.chainHash,
+      info: () => Promise.reject(new Error('offline')),
+      latest: () => Promise.reject(new Error('offline')),
+      forRound: () => Promise.reject(new Error('offline')),
+      forTime: () => Promise.reject(new Error('offline')),
+      stop: () => {},
+    }
+    const cached = withBeaconCache(mainnet, cache)
+    await expect(cached.forRound(20000)).rejects.toThrow('offline')
+    await expect(cached.info()).rejects.toThrow('offline')
+  })
+
+  it('falls back to the source when the cache cannot be read', async () => {
+    const cache = await openBeaconCache()
+    vi.spyOn(cache, 'getBeacon').mockRejectedValue(new Error('transaction aborted'))
+    const source = withBeaconCache(createFixtureSource(fixture, 'drand:custom', { chainHash: info.hash, publicKey: info.public_key }), cache)
+    expect(await source.forRound(1)).toMatchObject({ round: 1, verified: true })
+  })
+})
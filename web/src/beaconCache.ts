@@ -0,0 +1,173 @@
+import { roundAt, type ChainInfo, type RandomnessBeacon } from 'drand-client'
+import type { BeaconSource } from './beacons'
+import type { VerifiedBeacon } from './drand'
+
+// Local store behind the gallery, in IndexedDB: beacons and chain info as fetched, rendered
+// thumbnails and the favorites list, so rounds seen before come back at once and offline.
+// Only beacons that verified are kept, and they read back as verified without checking the
+// signature again, so everything is filed under the pinned chain hash as well as the source id:
+// a link reusing a known chain's name for another chain gets entries of its own. Where IndexedDB
+// is unavailable (some private windows) it lasts for the session.
+
+const DB_NAME = 'tesseract'
+const DB_VERSION = 1
+const STORES = ['beacons', 'chains', 'thumbnails', 'favorites'] as const
+type StoreName = typeof STORES[number]
+
+export type Favorite = {
+  // cacheKey() of the source, e.g. drand:mainnet@8990e7a9…
+  source: string
+  round: number
+  // the beacon itself, so an exported list can be checked without the network
+  beacon: RandomnessBeacon
+  addedAt: number
+}
+
+export type BeaconCache = {
+  getBeacon(source: string, round: number): Promise<VerifiedBeacon | undefined>
+  putBeacon(source: string, beacon: VerifiedBeacon): Promise<void>
+  getChainInfo(source: string): Promise<ChainInfo | undefined>
+  putChainInfo(source: string, info: ChainInfo): Promise<void>
+  getThumbnail(key: string): Promise<Blob | undefined>
+  putThumbnail(key: string, png: Blob): Promise<void>
+  // oldest first
+  favorites(source: string): Promise<Favorite[]>
+  setFavorite(favorite: Favorite, on: boolean): Promise<void>
+}
+
+// The few key-value operations the cache needs, over IndexedDB or a Map
+type Store = {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>
+  put(store: StoreName, key: string, value: unknown): Promise<void>
+  delete(store: StoreName, key: string): Promise<void>
+  all<T>(store: StoreName): Promise<T[]>
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      for (const name of STORES) if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => reject(new Error('the beacon cache is open in an older tab'))
+  })
+}
+
+function idbStore(db: IDBDatabase): Store {
+  const tx = (store: StoreName, mode: IDBTransactionMode) => db.transaction(store, mode).objectStore(store)
+  return {
+    get: async (store, key) => request(tx(store, 'readonly').get(key)),
+    put: async (store, key, value) => { await request(tx(store, 'readwrite').put(value, key)) },
+    delete: async (store, key) => { await request(tx(store, 'readwrite').delete(key)) },
+    all: async (store) => request(tx(store, 'readonly').getAll()),
+  }
+}
+
+function memoryStore(): Store {
+  const maps = new Map(STORES.map(name => [name, new Map<string, unknown>()]))
+  return {
+    get: async <T>(store: StoreName, key: string) => maps.get(store)!.get(key) as T | undefined,
+    put: async (store, key, value) => { maps.get(store)!.set(key, value) },
+    delete: async (store, key) => { maps.get(store)!.delete(key) },
+    all: async <T>(store: StoreName) => [...maps.get(store)!.values()] as T[],
+  }
+}
+
+const roundKey = (source: string, round: number) => `${source}#${round}`
+
+// What the source's entries are filed under: its id and the chain hash it is pinned to
+export function cacheKey(source: BeaconSource): string {
+  return `${source.id}@${source.chainHash}`
+}
+
+// The beacon as the chain published it, without our verification result
+export function publishedBeacon(beacon: VerifiedBeacon): RandomnessBeacon {
+  const copy: Partial<VerifiedBeacon> = { ...beacon }
+  delete copy.verified
+  delete copy.reason
+  return copy as RandomnessBeacon
+}
+
+export async function openBeaconCache(): Promise<BeaconCache> {
+  let store: Store
+  try {
+    store = idbStore(await openDatabase())
+  } catch (err) {
+    console.warn('IndexedDB unavailable, caching for this session only:', err)
+    store = memoryStore()
+  }
+  return {
+    async getBeacon(source, round) {
+      const beacon = await store.get<RandomnessBeacon>('beacons', roundKey(source, round))
+      return beacon && { ...beacon, verified: true }
+    },
+    async putBeacon(source, beacon) {
+      if (beacon.verified) await store.put('beacons', roundKey(source, beacon.round), publishedBeacon(beacon))
+    },
+    getChainInfo: (source) => store.get<ChainInfo>('chains', source),
+    putChainInfo: (source, info) => store.put('chains', source, info),
+    getThumbnail: (key) => store.get<Blob>('thumbnails', key),
+    putThumbnail: (key, png) => store.put('thumbnails', key, png),
+    async favorites(source) {
+      const all = await store.all<Favorite>('favorites')
+      return all.filter(f => f.source === source).sort((a, b) => a.addedAt - b.addedAt)
+    },
+    async setFavorite(favorite, on) {
+      const key = roundKey(favorite.source, favorite.round)
+      if (on) await store.put('favorites', key, favorite)
+      else await store.delete('favorites', key)
+    },
+  }
+}
+
+// `source` with the cache in front: rounds and chain info come from it when present, and
+// everything fetched goes into it. The latest beacon always comes from the source.
+export function withBeaconCache(source: BeaconSource, cache: BeaconCache): BeaconSource {
+  const key = cacheKey(source)
+  const remember = (beacon: VerifiedBeacon): VerifiedBeacon => {
+    cache.putBeacon(key, beacon).catch(err => console.warn('Could not cache beacon:', err))
+    return beacon
+  }
+  // chain info does not change; store it once per session
+  let infoStored = false
+  const info = async (): Promise<ChainInfo> => {
+    try {
+      const fetched = await source.info()
+      if (!infoStored) {
+        infoStored = true
+        cache.putChainInfo(key, fetched).catch(err => console.warn('Could not cache chain info:', err))
+      }
+      return fetched
+    } catch (err) {
+      const cached = await cache.getChainInfo(key).catch(() => undefined)
+      if (cached) return cached
+      throw err
+    }
+  }
+  const forRound = async (round: number): Promise<VerifiedBeacon> => {
+    // a failing store (a broken transaction, a full disk) only costs the shortcut
+    const cached = await cache.getBeacon(key, round).catch((err) => {
+      console.warn('Could not read cached beacon:', err)
+      return undefined
+    })
+    return cached ?? remember(await source.forRound(round))
+  }
+  return {
+    id: source.id,
+    chainHash: source.chainHash,
+    info,
+    latest: async () => remember(await source.latest()),
+    forRound,
+    forTime: async (ms) => forRound(roundAt(ms, await info())),
+    stop: () => source.stop(),
+  }
+}
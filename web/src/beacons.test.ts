@@ -0,0 +1,42 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { createFixtureSource, type BeaconFixture } from './beacons'
+import { CHAINS } from './drand'
+
+function loadFixture(name: string): BeaconFixture {
+  return JSON.parse(readFileSync(new URL(`../fixtures/${name}.json`, import.meta.url), 'utf8'))
+}
+
+describe('createFixtureSource', () => {
+  const fixture = loadFixture('testnet-unchained')
+  const { info } = fixture
+  const anchor = { chainHash: info.hash, publicKey: info.public_key }
+
+  it('reports beacons of an unknown chain as unpinned', async () => {
+    const beacon = await createFixtureSource(fixture).latest()
+    expect(beacon).toMatchObject({ round: 2218895, verified: false, reason: 'unpinned chain' })
+  })
+
+  it('verifies against an explicit anchor', async () => {
+    const source = createFixtureSource(fixture, 'fixture', anchor)
+    for (const { round } of fixture.beacons) expect(await source.forRound(round)).toMatchObject({ round, verified: true })
+  })
+
+  it('does not verify against the wrong anchor', async () => {
+    const source = createFixtureSource(fixture, 'fixture', { chainHash: CHAINS.quicknet.chainHash, publicKey: CHAINS.quicknet.publicKey })
+    expect(await source.forRound(1)).toMatchObject({ verified: false })
+  })
+
+  it('pins a fixture claiming a known chain to that chain', async () => {
+    // a forged file: mainnet's hash over a chain signed with a test key
+    const { info: signed, beacons } = loadFixture('chained-g2')
+    const forged = { info: { ...signed, hash: CHAINS.mainnet.chainHash }, beacons }
+    const beacon = await createFixtureSource(forged).forRound(1)
+    expect(beacon.verified).toBe(false)
+    expect(beacon.reason).toMatch(/public key/)
+  })
+
+  it('rejects rounds it does not have', async () => {
+    await expect(createFixtureSource(fixture).forRound(2)).rejects.toThrow(/not in the fixture/)
+  })
+})
@@ -0,0 +1,91 @@
+import { roundAt, type ChainInfo, type RandomnessBeacon } from 'drand-client'
+import { CHAINS, chainConfigFromUrl, createDrandClient, getBeaconForRound, getBeaconForTime, getLatestVerifiedBeacon, stopDrandClient, type ChainConfig, type VerifiedBeacon } from './drand'
+import { verifyBeacon, type TrustAnchor } from './verify'
+
+// Anything that can hand out beacons for the artwork: the live network, a recorded file, ...
+export type BeaconSource = {
+  id: string
+  // the pinned chain hash its beacons verify against; ids alone can be chosen by a link
+  chainHash: string
+  info(): Promise<ChainInfo>
+  latest(): Promise<VerifiedBeacon>
+  forRound(round: number): Promise<VerifiedBeacon>
+  forTime(msSinceEpoch: number): Promise<VerifiedBeacon>
+  stop(): void
+}
+
+// Recorded beacons, as written by scripts/record-beacons.mjs and served by scripts/mock-drand-server.mjs
+export type BeaconFixture = {
+  info: ChainInfo
+  beacons: RandomnessBeacon[]
+}
+
+export function createDrandSource(config?: ChainConfig): BeaconSource {
+  const client = createDrandClient(config)
+  return {
+    id: `drand:${client.config.id}`,
+    chainHash: client.config.chainHash,
+    info: () => client.info(),
+    latest: () => getLatestVerifiedBeacon(client),
+    forRound: (round) => getBeaconForRound(client, round),
+    forTime: (ms) => getBeaconForTime(client, ms),
+    stop: () => stopDrandClient(client),
+  }
+}
+
+// The key a fixture is checked against: the caller's, or the pinned one of the known chain it
+// claims to come from. Never the fixture's own chain info, which a forged file would simply agree with.
+function fixtureAnchor(info: ChainInfo, anchor?: TrustAnchor): TrustAnchor | null {
+  if (anchor) return anchor
+  const known = Object.values(CHAINS).find(c => c.chainHash === info.hash)
+  return known ? { chainHash: known.chainHash, publicKey: known.publicKey } : null
+}
+
+export function createFixtureSource(fixture: BeaconFixture, id = 'fixture', pinned?: TrustAnchor): BeaconSource {
+  const { info } = fixture
+  const byRound = new Map<number, RandomnessBeacon>()
+  for (const b of fixture.beacons) byRound.set(b.round, b)
+  if (byRound.size === 0) throw new Error(`${id}: fixture has no beacons`)
+  const lastRound = Math.max(...byRound.keys())
+  // Recorded beacons are still checked, so tampered files and unknown chains show as unverified
+  const anchor = fixtureAnchor(info, pinned)
+
+  const forRound = async (round: number): Promise<VerifiedBeacon> => {
+    const beacon = byRound.get(round)
+    if (!beacon) throw new Error(`${id}: round ${round} is not in the fixture`)
+    if (!anchor) return { ...beacon, verified: false, reason: 'unpinned chain' }
+    const result = verifyBeacon(info, beacon, anchor, round)
+    return result.ok ? { ...beacon, verified: true } : { ...beacon, verified: false, reason: result.reason }
+  }
+
+  return {
+    id,
+    // unpinned, nothing verifies, so the recorded hash only names the chain
+    chainHash: anchor?.chainHash ?? info.hash,
+    info: async () => info,
+    latest: () => forRound(lastRound),
+    forRound,
+    forTime: (ms) => forRound(roundAt(ms, info)),
+    stop: () => {},
+  }
+}
+
+export async function loadFixtureSource(url: string, anchor?: TrustAnchor): Promise<BeaconSource> {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`failed to load beacon fixture ${url}: ${res.status}`)
+  return createFixtureSource(await res.json() as BeaconFixture, `fixture:${url}`, anchor)
+}
+
+// ?beacons=/fixtures/quicknet.json reads a recorded file, pinned by ?chainHash=..&publicKey=.. unless
+// it is from a known chain; otherwise the live chain from chainConfigFromUrl
+export async function beaconSourceFromUrl(url: URL): Promise<BeaconSource> {
+  const p = url.searchParams
+  const fixtureUrl = p.get('beacons')
+  if (fixtureUrl) {
+    const chainHash = p.get('chainHash')
+    const publicKey = p.get('publicKey')
+    if (!chainHash !== !publicKey) throw new Error('pinning a fixture needs both chainHash and publicKey')
+    return loadFixtureSource(fixtureUrl, chainHash && publicKey ? { chainHash, publicKey } : undefined)
+  }
+  return createDrandSource(chainConfigFromUrl(url))
+}
@@ -0,0 +1,169 @@
+import './style.css'
+import * as THREE from 'three'
+import { frameGeometry, frameRotation, mulberry32, oscillator, writeEdges, writeGlow, type ViewState } from './artwork'
+import { getPolytope, type Polytope4D, type Vec4 } from './geometry4d'
+import { createGpuWireframe } from './gpu4d'
+import { getPalette } from './palette'
+import { applyMatrix4D, rotationMatrix } from './rotation4d'
+
+// CPU against GPU wireframe at growing vertex counts (bench.html). The CPU path is the app's:
+// frameGeometry, writeEdges/writeGlow and a buffer upload per frame; the GPU path only sets
+// uniforms. Every frame ends with a one-pixel readback so draw time is counted too.
+
+const WARMUP = 10
+const FRAMES = 120
+const SIZE = 512
+
+type Result = { jsMs: number; frameMs: number }
+
+// `copies` randomly turned and scaled copies of a shape as one polytope, standing in for many instances
+function stacked(poly: Polytope4D, copies: number): Polytope4D {
+  if (copies === 1) return poly
+  const rand = mulberry32(copies)
+  const vertices: Vec4[] = []
+  const edges: Array<[number, number]> = []
+  for (let c = 0; c < copies; c++) {
+    const turn = rotationMatrix({ xy: rand() * 6.28, xz: rand() * 6.28, xw: rand() * 6.28, yz: rand() * 6.28, yw: rand() * 6.28, zw: rand() * 6.28 })
+    const scale = 0.4 + rand() * 0.8
+    const offset = vertices.length
+    for (const v of poly.vertices) {
+      const r = applyMatrix4D(turn, v)
+      vertices.push({ x: r.x * scale, y: r.y * scale, z: r.z * scale, w: r.w * scale })
+    }
+    for (const [a, b] of poly.edges) edges.push([a + offset, b + offset])
+  }
+  return { name: `${poly.name} ×${copies}`, vertices, edges }
+}
+
+const CASES: Array<[string, number]> = [
+  ['tesseract', 1],
+  ['24cell', 1],
+  ['600cell', 1],
+  ['120cell', 1],
+  ['120cell', 4],
+  ['120cell', 16],
+  ['120cell', 64],
+]
+
+const stage = document.getElementById('stage') as HTMLElement
+const table = document.getElementById('results') as HTMLTableSectionElement
+const runBtn = document.getElementById('run') as HTMLButtonElement
+const status = document.getElementById('status') as HTMLElement
+
+const renderer = new THREE.WebGLRenderer({ antialias: true, preserveDrawingBuffer: true })
+renderer.setPixelRatio(1)
+renderer.setSize(SIZE, SIZE)
+stage.append(renderer.domElement)
+const gl = renderer.getContext()
+const pixel = new Uint8Array(4)
+const camera = new THREE.PerspectiveCamera(60, 1, 0.01, 100)
+camera.position.set(0, 0, 6)
+const palette = getPalette('aurora')
+const baseHue = 200
+
+function view(poly: Polytope4D): ViewState {
+  return {
+    poly,
+    angles: { xy: 0.3, xz: 0.2, xw: 0.5, yz: 0.1, yw: 0.4, zw: 0.6 },
+    rates: { xy: 0.35, xz: 0.27, xw: 0.31, yz: 0.29, yw: 0.33, zw: 0.37 },
+    isoclinic: false,
+    projection: 'perspective',
+    projectionDistance: 3,
+    sliceLevel: 0,
+    sweep: false,
+    schlegelCell: 0,
+    loopPeriod: null,
+  }
+}
+
+// Times `frames` frames of `step` (the per-frame JS) followed by a synchronised draw
+function time(scene: THREE.Scene, step: (tau: number) => void): Result {
+  let js = 0, total = 0
+  for (let f = 0; f < WARMUP + FRAMES; f++) {
+    const t0 = performance.now()
+    step(f / 60)
+    const t1 = performance.now()
+    renderer.render(scene, camera)
+    gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, pixel)
+    const t2 = performance.now()
+    if (f >= WARMUP) { js += t1 - t0; total += t2 - t0 }
+  }
+  return { jsMs: js / FRAMES, frameMs: total / FRAMES }
+}
+
+function runCpu(poly: Polytope4D): Result {
+  const scene = new THREE.Scene()
+  const positions = new Float32Array(poly.edges.length * 6)
+  const colors = new Float32Array(poly.edges.length * 6)
+  const lineGeo = new THREE.BufferGeometry()
+  lineGeo.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  lineGeo.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+  const glowPositions = new Float32Array(poly.vertices.length * 3)
+  const glowColors = new Float32Array(poly.vertices.length * 3)
+  const glowGeo = new THREE.BufferGeometry()
+  glowGeo.setAttribute('position', new THREE.BufferAttribute(glowPositions, 3))
+  glowGeo.setAttribute('color', new THREE.BufferAttribute(glowColors, 3))
+  const lineMat = new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.65, blending: THREE.AdditiveBlending })
+  const glowMat = new THREE.PointsMaterial({ size: 0.05, transparent: true, opacity: 0.85, vertexColors: true, blending: THREE.AdditiveBlending, depthWrite: false })
+  scene.add(new THREE.LineSegments(lineGeo, lineMat), new THREE.Points(glowGeo, glowMat))
+  const v = view(poly)
+  try {
+    return time(scene, tau => {
+      const geom = frameGeometry(v, tau)
+      writeEdges(geom, baseHue, palette, positions, colors)
+      writeGlow(geom, baseHue, palette, tau, null, glowPositions, glowColors)
+      lineGeo.attributes.position.needsUpdate = true
+      lineGeo.attributes.color.needsUpdate = true
+      glowGeo.attributes.position.needsUpdate = true
+      glowGeo.attributes.color.needsUpdate = true
+    })
+  } finally {
+    lineGeo.dispose()
+    glowGeo.dispose()
+    lineMat.dispose()
+    glowMat.dispose()
+  }
+}
+
+function runGpu(poly: Polytope4D): Result {
+  const scene = new THREE.Scene()
+  const gpu = createGpuWireframe()
+  gpu.setPolytope(poly)
+  gpu.setPalette(palette, baseHue, 'nebula')
+  gpu.setViewportHeight(SIZE)
+  scene.add(gpu.lines, gpu.points)
+  const v = view(poly)
+  try {
+    return time(scene, tau => gpu.update({ rotation: frameRotation(v, tau), projection: v.projection, distance: v.projectionDistance, flicker: oscillator(5, null) * tau }))
+  } finally {
+    gpu.dispose()
+  }
+}
+
+const fmt = (ms: number) => ms.toFixed(2)
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0))
+
+runBtn.addEventListener('click', async () => {
+  runBtn.disabled = true
+  table.replaceChildren()
+  try {
+    for (const [id, copies] of CASES) {
+      status.textContent = `Running ${id} ×${copies}…`
+      await nextTask()
+      const poly = stacked(getPolytope(id), copies)
+      const cpu = runCpu(poly)
+      await nextTask()
+      const gpu = runGpu(poly)
+      const row = table.insertRow()
+      for (const cell of [poly.name, poly.vertices.length, poly.edges.length, fmt(cpu.jsMs), fmt(cpu.frameMs), fmt(gpu.jsMs), fmt(gpu.frameMs), `${(cpu.frameMs / gpu.frameMs).toFixed(1)}×`]) {
+        row.insertCell().textContent = String(cell)
+      }
+    }
+    status.textContent = `Done: ${FRAMES} frames per path at ${SIZE}×${SIZE}`
+  } catch (err) {
+    console.error(err)
+    status.textContent = `Benchmark failed: ${err instanceof Error ? err.message : err}`
+  } finally {
+    runBtn.disabled = false
+  }
+})
@@ -1,53 +1,123 @@
-import { FastestNodeClient, fetchBeacon, fetchBeaconByTime, type RandomnessBeacon } from 'drand-client'
+import { FastestNodeClient, HttpCachingChain, HttpChainClient, fetchBeacon, fetchBeaconByTime, type Chain, type ChainClient, type ChainInfo, type ChainOptions, type RandomnessBeacon } from 'drand-client'
+import { verifyBeacon, verifyChainInfo } from './verify'
 
-export type VerifiedBeacon = RandomnessBeacon & { verified: boolean }
+export type VerifiedBeacon = RandomnessBeacon & { verified: boolean; reason?: string }
 
-const DEFAULT_CHAIN_HASH = '8990e7a9aaed2ffed73dbd7092123d6f289930540d7651336225dc172e51b2ce'
-const DEFAULT_PUBLIC_KEY = '868f005eb8e6e4ca0a47c8a77cea a5309a47978a7c71bc5cce96366b5d7a569937c529eeda66c7293784a9402801af31'.replace(/\s+/g, '')
+// A drand chain we know how to talk to: the pinned hash/key we trust and the nodes that serve it
+export type ChainConfig = {
+  id: string
+  chainHash: string
+  publicKey: string
+  urls: string[]
+}
+
+export const CHAINS = {
+  mainnet: {
+    id: 'mainnet',
+    chainHash: '8990e7a9aaed2ffed73dbd7092123d6f289930540d7651336225dc172e51b2ce',
+    publicKey: '868f005eb8e6e4ca0a47c8a77ceaa5309a47978a7c71bc5cce96366b5d7a569937c529eeda66c7293784a9402801af31',
+    urls: ['https://api.drand.sh', 'https://drand.cloudflare.com'],
+  },
+  quicknet: {
+    id: 'quicknet',
+    chainHash: '52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971',
+    publicKey: '83cf0f2896adee7eb8b5f01fcad3912212c437e0073e911fb90022d3e760183c8c4b450b6a0a6c3ac6a5776a2d1064510d1fec758c921cc22b0e17e63aaf4bcb5ed66304de9cf809bd274ca73bab4af5a6e9c76a4bc09e76eae8991ef5ece45a',
+    urls: ['https://api.drand.sh', 'https://drand.cloudflare.com'],
+  },
+} satisfies Record<string, ChainConfig>
 
-const DEFAULT_URLS = [
-  'https://api.drand.sh',
-  'https://drand.cloudflare.com',
-]
+export type DrandClient = ChainClient & {
+  config: ChainConfig
+  info(): Promise<ChainInfo>
+  stop(): void
+}
 
-export function createDrandClient(urls: string[] = DEFAULT_URLS) {
-  const options = {
-    disableBeaconVerification: false,
+// Resolve the chain from query params:
+//   ?chain=mainnet|quicknet            pick a known chain
+//   ?drand=http://localhost:8080,...   override the node URLs (e.g. a local mock server)
+//   ?chainHash=..&publicKey=..         pin a custom/private chain (requires ?drand)
+export function chainConfigFromUrl(url: URL): ChainConfig {
+  const p = url.searchParams
+  const nodes = p.get('drand')?.split(',').map(s => s.trim()).filter(Boolean)
+  const chainHash = p.get('chainHash')
+  const publicKey = p.get('publicKey')
+  if (chainHash || publicKey) {
+    if (!chainHash || !publicKey || !nodes?.length) throw new Error('custom chain needs chainHash, publicKey and drand params')
+    return { id: p.get('chain') ?? 'custom', chainHash, publicKey, urls: nodes }
+  }
+  const name = p.get('chain') ?? 'mainnet'
+  if (!(name in CHAINS)) throw new Error(`unknown chain "${name}"`)
+  const known: ChainConfig = CHAINS[name as keyof typeof CHAINS]
+  return nodes?.length ? { ...known, urls: nodes } : known
+}
+
+export function createDrandClient(config: ChainConfig = CHAINS.mainnet): DrandClient {
+  const options: ChainOptions = {
+    // We verify beacons ourselves so a bad one surfaces as `verified: false` instead of a thrown error
+    disableBeaconVerification: true,
     noCache: false,
     chainVerificationParams: {
-      chainHash: DEFAULT_CHAIN_HASH,
-      publicKey: DEFAULT_PUBLIC_KEY,
+      chainHash: config.chainHash,
+      publicKey: config.publicKey,
     },
   }
 
-  const client = new FastestNodeClient(urls, options)
-  client.start()
-  return client
-}
+  // Every drand node serves each of its chains under /<chain hash>
+  const baseUrls = config.urls.map(u => `${u.replace(/\/+$/, '')}/${config.chainHash}`)
+  // FastestNodeClient refuses to run with a single URL, so a lone node (e.g. a local mock) gets a plain client
+  const fastest = baseUrls.length > 1 ? new FastestNodeClient(baseUrls, options) : null
+  fastest?.start()
+  const inner: ChainClient = fastest ?? new HttpChainClient(new HttpCachingChain(baseUrls[0], options), options)
+
+  // FastestNodeClient builds a fresh chain per call, so /info is cached here instead
+  let cachedInfo: Promise<ChainInfo> | null = null
+  const info = (): Promise<ChainInfo> => {
+    if (!cachedInfo) {
+      cachedInfo = inner.chain().info().then((i) => {
+        const check = verifyChainInfo(i, config)
+        if (!check.ok) throw new Error(`${config.id}: ${check.reason}`)
+        return i
+      })
+      cachedInfo.catch(() => { cachedInfo = null })
+    }
+    return cachedInfo
+  }
+  const chain = (): Chain => ({ baseUrl: inner.chain().baseUrl, info })
 
-export async function getLatestVerifiedBeacon(client: ReturnType<typeof createDrandClient>): Promise<VerifiedBeacon> {
-  const beacon = await fetchBeacon(client)
   return {
-    ...beacon,
-    verified: true,
+    config,
+    options,
+    latest: () => inner.latest(),
+    get: (round: number) => inner.get(round),
+    chain,
+    info,
+    stop: () => fastest?.stop(),
   }
 }
 
-export async function getBeaconForTime(client: ReturnType<typeof createDrandClient>, msSinceEpoch: number): Promise<VerifiedBeacon> {
+async function withVerification(client: DrandClient, beacon: RandomnessBeacon, expectedRound?: number): Promise<VerifiedBeacon> {
+  const info = await client.info()
+  const result = verifyBeacon(info, beacon, client.config, expectedRound)
+  if (!result.ok) console.warn(`beacon ${beacon.round} failed verification: ${result.reason}`)
+  return result.ok ? { ...beacon, verified: true } : { ...beacon, verified: false, reason: result.reason }
+}
+
+export async function getLatestVerifiedBeacon(client: DrandClient): Promise<VerifiedBeacon> {
+  // Ask the node for its latest rather than deriving the round from our clock; mock servers and lagging nodes stay usable
+  const beacon = await client.latest()
+  return withVerification(client, beacon)
+}
+
+export async function getBeaconForTime(client: DrandClient, msSinceEpoch: number): Promise<VerifiedBeacon> {
   const beacon = await fetchBeaconByTime(client, msSinceEpoch)
-  return {
-    ...beacon,
-    verified: true,
-  }
+  return withVerification(client, beacon)
 }
 
-export async function getBeaconForRound(client: ReturnType<typeof createDrandClient>, round: number): Promise<VerifiedBeacon> {
+export async function getBeaconForRound(client: DrandClient, round: number): Promise<VerifiedBeacon> {
   const beacon = await fetchBeacon(client, round)
-  return { ...beacon, verified: true }
+  return withVerification(client, beacon, round)
 }
 
-export function stopDrandClient(client: ReturnType<typeof createDrandClient>): void {
+export function stopDrandClient(client: DrandClient): void {
   client.stop()
 }
-
-
@@ -0,0 +1,111 @@
+import * as THREE from 'three'
+import type { Polytope4D, Projected } from './geometry4d'
+
+export type FaceMode = 'off' | 'faces' | 'cells'
+
+export type FaceMesh = {
+  mesh: THREE.Mesh
+  material: THREE.MeshBasicMaterial
+  setTopology(poly: Polytope4D, mode: FaceMode): void
+  // -1 clears the highlight
+  setHighlight(cell: number): void
+  // hide without forgetting the topology, e.g. while showing a cross-section
+  setSuppressed(suppressed: boolean): void
+  update(projected: Projected[], color: (t: number, group: number, out: THREE.Color) => void): void
+}
+
+// Translucent 2-faces or 3-cells, each colored by the mean w-depth `t` of its vertices.
+// In 'faces' mode a group is one face; in 'cells' mode a group is every face of one cell.
+export function createFaceMesh(opacity = 0.18): FaceMesh {
+  const geometry = new THREE.BufferGeometry()
+  const material = new THREE.MeshBasicMaterial({ vertexColors: true, transparent: true, side: THREE.DoubleSide, depthWrite: false, blending: THREE.AdditiveBlending })
+  const mesh = new THREE.Mesh(geometry, material)
+  mesh.frustumCulled = false
+  mesh.visible = false
+
+  let poly: Polytope4D | null = null
+  let mode: FaceMode = 'off'
+  // triangle corners as vertex indices, and the group each triangle belongs to
+  let triVerts = new Uint32Array(0)
+  let triGroup = new Uint32Array(0)
+  let groupVerts: number[][] = []
+  let groupT = new Float32Array(0)
+  let positions = new Float32Array(0)
+  let colors = new Float32Array(0)
+  let highlighted = new Set<number>()
+  let highlightCell = -1
+  let suppressed = false
+  const col = new THREE.Color()
+
+  function applyHighlight() {
+    highlighted = new Set()
+    if (!poly || highlightCell < 0 || !poly.cells || highlightCell >= poly.cells.length) return
+    if (mode === 'cells') highlighted.add(highlightCell)
+    else for (const f of poly.cells[highlightCell]) highlighted.add(f)
+  }
+
+  return {
+    mesh,
+    material,
+    setTopology(p, m) {
+      poly = p
+      mode = m
+      const faces = p.faces ?? []
+      const groups: number[][] = mode === 'cells' ? (p.cells ?? []) : faces.map((_, i) => [i])
+      const verts: number[] = []
+      const owner: number[] = []
+      groupVerts = groups.map((faceIds, g) => {
+        const set = new Set<number>()
+        for (const fi of faceIds) {
+          const f = faces[fi]
+          // fan triangulation; faces of convex polytopes are convex polygons
+          for (let k = 1; k + 1 < f.length; k++) {
+            verts.push(f[0], f[k], f[k + 1])
+            owner.push(g)
+          }
+          for (const v of f) set.add(v)
+        }
+        return [...set]
+      })
+      triVerts = Uint32Array.from(verts)
+      triGroup = Uint32Array.from(owner)
+      groupT = new Float32Array(groups.length)
+      positions = new Float32Array(triVerts.length * 3)
+      colors = new Float32Array(triVerts.length * 4)
+      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 4))
+      mesh.visible = !suppressed && mode !== 'off' && triVerts.length > 0
+      applyHighlight()
+    },
+    setHighlight(cell) {
+      highlightCell = cell
+      applyHighlight()
+    },
+    setSuppressed(s) {
+      suppressed = s
+      mesh.visible = !suppressed && mode !== 'off' && triVerts.length > 0
+    },
+    update(projected, color) {
+      if (!mesh.visible) return
+      for (let g = 0; g < groupVerts.length; g++) {
+        const vs = groupVerts[g]
+        let sum = 0
+        for (let i = 0; i < vs.length; i++) sum += projected[vs[i]].t
+        groupT[g] = vs.length ? sum / vs.length : 0.5
+      }
+      const dim = highlighted.size > 0
+      for (let tri = 0, p = 0, c = 0; tri < triGroup.length; tri++) {
+        const g = triGroup[tri]
+        color(groupT[g], g, col)
+        const alpha = dim ? (highlighted.has(g) ? Math.min(1, opacity * 3.5) : opacity * 0.3) : opacity
+        for (let k = 0; k < 3; k++) {
+          const v = projected[triVerts[tri * 3 + k]]
+          positions[p++] = v.x; positions[p++] = v.y; positions[p++] = v.z
+          colors[c++] = col.r; colors[c++] = col.g; colors[c++] = col.b; colors[c++] = alpha
+        }
+      }
+      geometry.attributes.position.needsUpdate = true
+      geometry.attributes.color.needsUpdate = true
+    },
+  }
+}
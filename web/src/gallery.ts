@@ -0,0 +1,254 @@
+import { roundAt } from 'drand-client'
+import { cacheKey, publishedBeacon, type BeaconCache, type Favorite } from './beaconCache'
+import type { BeaconSource } from './beacons'
+import type { VerifiedBeacon } from './drand'
+import type { ThumbnailRequest, ThumbnailResponse } from './thumbnailWorker'
+
+// Grid of recent rounds (or a chosen range, or the favorites), each thumbnail rendered from its
+// beacon's seeded parameters by thumbnailWorker.ts. Thumbnails are cached per source and chain,
+// round, algorithm and size, so they are only ever drawn once.
+
+export const FAVORITES_FORMAT = 'tesseract-favorites'
+
+const THUMB_SIZE = 192
+// rounds one listing may ask for
+const MAX_ROUNDS = 200
+
+export type GalleryHooks = {
+  // trait algorithm the main view renders with
+  algorithm(): number
+  onPick(round: number): void
+  onExport(name: string, json: string): void
+  onError(message: string): void
+}
+
+export type Gallery = {
+  open(): void
+  close(): void
+  readonly isOpen: boolean
+}
+
+export type FavoritesExport = {
+  format: typeof FAVORITES_FORMAT
+  version: 1
+  source: string
+  chainHash: string
+  favorites: Array<Pick<Favorite, 'round' | 'beacon' | 'addedAt'>>
+}
+
+// Seeded PNG of a beacon from the worker, started on first use and again after it dies
+function createThumbnailRenderer(): (beacon: VerifiedBeacon, algorithm: number) => Promise<Blob> {
+  let worker: Worker | null = null
+  let nextId = 0
+  const pending = new Map<number, { resolve(png: Blob): void; reject(err: Error): void }>()
+  // a worker that failed to load or threw outside a job answers nothing more: fail what it holds
+  const abandon = (dead: Worker, reason: string) => {
+    if (worker !== dead) return
+    dead.terminate()
+    worker = null
+    const jobs = [...pending.values()]
+    pending.clear()
+    for (const job of jobs) job.reject(new Error(reason))
+  }
+  return (beacon, algorithm) => {
+    if (!worker) {
+      const started = new Worker(new URL('./thumbnailWorker.ts', import.meta.url), { type: 'module' })
+      started.onmessage = (ev: MessageEvent<ThumbnailResponse>) => {
+        const res = ev.data
+        const job = pending.get(res.id)
+        pending.delete(res.id)
+        if ('error' in res) job?.reject(new Error(res.error))
+        else job?.resolve(new Blob([res.png], { type: 'image/png' }))
+      }
+      started.onerror = (ev) => {
+        ev.preventDefault()
+        abandon(started, `thumbnail worker failed: ${ev.message || 'could not load'}`)
+      }
+      started.onmessageerror = () => abandon(started, 'thumbnail worker sent an unreadable message')
+      worker = started
+    }
+    const id = nextId++
+    const request: ThumbnailRequest = { id, randomness: beacon.randomness, algorithm, size: THUMB_SIZE }
+    worker.postMessage(request)
+    return new Promise((resolve, reject) => pending.set(id, { resolve, reject }))
+  }
+}
+
+export function createGallery(root: HTMLElement, source: BeaconSource, cache: BeaconCache, hooks: GalleryHooks): Gallery {
+  const renderThumbnail = createThumbnailRenderer()
+  const sourceKey = cacheKey(source)
+  let isOpen = false
+  // bumped by every listing and by close(), so an abandoned one stops rendering
+  let generation = 0
+  let urls: string[] = []
+  let favorites = new Map<number, Favorite>()
+  // the listing on show, rerun on open if closing cut it short
+  let relist = () => latestBtn.click()
+  let complete = false
+
+  function el<K extends keyof HTMLElementTagNameMap>(tag: K, props: Partial<HTMLElementTagNameMap[K]> = {}, ...children: Array<Node | string>): HTMLElementTagNameMap[K] {
+    const node = Object.assign(document.createElement(tag), props)
+    node.append(...children)
+    return node
+  }
+
+  const count = el('input', { type: 'number', min: '1', max: String(MAX_ROUNDS), step: '1', value: '24' })
+  const from = el('input', { type: 'number', min: '1', step: '1', placeholder: 'from' })
+  const to = el('input', { type: 'number', min: '1', step: '1', placeholder: 'to' })
+  const latestBtn = el('button', { textContent: 'show latest', title: 'The last N rounds up to the newest' })
+  const rangeBtn = el('button', { textContent: 'show range', title: `Every round from..to, at most ${MAX_ROUNDS}` })
+  const favoritesBtn = el('button', { textContent: 'favorites' })
+  const exportBtn = el('button', { textContent: 'export favorites', title: 'Download the favorites with their beacons as JSON' })
+  const closeBtn = el('button', { textContent: 'close' })
+  const status = el('span', { className: 'mono small' })
+  const grid = el('div', { className: 'gallery-grid' })
+  root.replaceChildren(
+    el('div', { className: 'row' },
+      el('label', {}, 'last ', count, ' rounds'), latestBtn,
+      el('label', {}, 'range ', from, ' – ', to), rangeBtn,
+      favoritesBtn, exportBtn, closeBtn, status),
+    grid,
+  )
+
+  async function loadFavorites() {
+    favorites = new Map((await cache.favorites(sourceKey)).map(f => [f.round, f]))
+  }
+
+  async function toggleFavorite(beacon: VerifiedBeacon, star: HTMLButtonElement) {
+    const on = !favorites.has(beacon.round)
+    const favorite: Favorite = { source: sourceKey, round: beacon.round, beacon: publishedBeacon(beacon), addedAt: Date.now() }
+    try {
+      await cache.setFavorite(favorite, on)
+      if (on) favorites.set(beacon.round, favorite)
+      else favorites.delete(beacon.round)
+      star.textContent = on ? '★' : '☆'
+      star.classList.toggle('on', on)
+    } catch (err) {
+      hooks.onError(`Could not save favorite: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  function tile(round: number): { figure: HTMLElement; show(beacon: VerifiedBeacon, png: Blob): void; fail(reason: string): void } {
+    const pick = el('button', { className: 'thumb', title: `Load round ${round}` })
+    pick.addEventListener('click', () => hooks.onPick(round))
+    const star = el('button', { className: 'star', textContent: favorites.has(round) ? '★' : '☆', title: 'Favorite' })
+    star.classList.toggle('on', favorites.has(round))
+    star.disabled = true
+    const label = el('figcaption', { className: 'mono small' }, `round ${round}`)
+    const figure = el('figure', {}, pick, el('div', { className: 'row' }, label, star))
+    return {
+      figure,
+      show(beacon, png) {
+        const url = URL.createObjectURL(png)
+        urls.push(url)
+        pick.append(el('img', { src: url, alt: `round ${round}`, width: THUMB_SIZE, height: THUMB_SIZE }))
+        if (!beacon.verified) label.append(' (unverified)')
+        star.disabled = false
+        star.addEventListener('click', () => toggleFavorite(beacon, star))
+      },
+      fail(reason) {
+        pick.textContent = 'unavailable'
+        pick.title = reason
+      },
+    }
+  }
+
+  // Beacons and thumbnails for `rounds` in order, one at a time
+  async function show(rounds: number[]) {
+    const gen = ++generation
+    complete = false
+    for (const url of urls) URL.revokeObjectURL(url)
+    urls = []
+    grid.replaceChildren()
+    await loadFavorites()
+    const tiles = rounds.map(round => tile(round))
+    grid.append(...tiles.map(t => t.figure))
+    const algorithm = hooks.algorithm()
+    let failed = 0
+    for (let i = 0; i < rounds.length; i++) {
+      if (gen !== generation) return
+      status.textContent = `${i + 1} / ${rounds.length}`
+      const round = rounds[i]
+      try {
+        const beacon = await source.forRound(round)
+        const key = `${sourceKey}#${round}#v${algorithm}#${THUMB_SIZE}`
+        let png = await cache.getThumbnail(key)
+        if (!png) {
+          png = await renderThumbnail(beacon, algorithm)
+          // unverified beacons are not cached, so neither are their pictures
+          if (beacon.verified) await cache.putThumbnail(key, png).catch(err => console.warn('Could not cache thumbnail:', err))
+        }
+        tiles[i].show(beacon, png)
+      } catch (err) {
+        failed++
+        tiles[i].fail(err instanceof Error ? err.message : String(err))
+      }
+    }
+    if (gen !== generation) return
+    complete = true
+    status.textContent = failed ? `${rounds.length - failed} rounds, ${failed} unavailable` : `${rounds.length} rounds`
+  }
+
+  // the newest round the source has, or by the clock when it cannot be reached
+  async function newestRound(): Promise<number> {
+    try {
+      return (await source.latest()).round
+    } catch {
+      return roundAt(Date.now(), await source.info())
+    }
+  }
+
+  const run = (task: () => Promise<void>) => task().catch(err => hooks.onError(`Gallery: ${err instanceof Error ? err.message : err}`))
+
+  const listing = (button: HTMLButtonElement, task: () => Promise<void>) => button.addEventListener('click', () => {
+    relist = () => button.click()
+    run(task)
+  })
+
+  listing(latestBtn, async () => {
+    const n = Math.min(MAX_ROUNDS, Math.max(1, parseInt(count.value, 10) || 1))
+    const newest = await newestRound()
+    await show(Array.from({ length: Math.min(n, newest) }, (_, i) => newest - i))
+  })
+  listing(rangeBtn, async () => {
+    const a = parseInt(from.value, 10), b = parseInt(to.value, 10)
+    if (!(a >= 1 && b >= a)) throw new Error('the range needs 1 <= from <= to')
+    if (b - a + 1 > MAX_ROUNDS) throw new Error(`at most ${MAX_ROUNDS} rounds at a time`)
+    await show(Array.from({ length: b - a + 1 }, (_, i) => a + i))
+  })
+  listing(favoritesBtn, async () => {
+    await loadFavorites()
+    await show([...favorites.keys()])
+  })
+  exportBtn.addEventListener('click', () => run(async () => {
+    await loadFavorites()
+    const data: FavoritesExport = {
+      format: FAVORITES_FORMAT,
+      version: 1,
+      source: source.id,
+      chainHash: source.chainHash,
+      favorites: [...favorites.values()].map(({ round, beacon, addedAt }) => ({ round, beacon, addedAt })),
+    }
+    hooks.onExport(`tesseract-favorites-${source.id.replace(/[^a-z0-9]+/gi, '-')}.json`, JSON.stringify(data, null, 2))
+  }))
+  closeBtn.addEventListener('click', () => close())
+
+  function close() {
+    isOpen = false
+    generation++
+    root.hidden = true
+  }
+
+  return {
+    open() {
+      root.hidden = false
+      if (isOpen) return
+      isOpen = true
+      if (!complete) relist()
+    },
+    close,
+    get isOpen() {
+      return isOpen
+    },
+  }
+}
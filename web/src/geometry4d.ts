@@ -9,7 +9,16 @@ export type RotationAngles4D = {
   zw: number
 }
 
-export function createTesseract(size = 1): { vertices: Vec4[]; edges: Array<[number, number]> } {
+// Declarative 4D polytope. Faces are vertex-index cycles, cells are lists of face indices.
+export type Polytope4D = {
+  name: string
+  vertices: Vec4[]
+  edges: Array<[number, number]>
+  faces?: number[][]
+  cells?: number[][]
+}
+
+export function createTesseract(size = 1): Polytope4D {
   const s = size
   const vertices: Vec4[] = []
   // 16 vertices at +/-s along each axis
@@ -29,10 +38,10 @@ export function createTesseract(size = 1): { vertices: Vec4[]; edges: Array<[num
     }
   }
 
-  return { vertices, edges }
+  return withFacesAndCells({ name: 'tesseract', vertices, edges })
 }
 
-export function createSimplex4D(size = 1): { vertices: Vec4[]; edges: Array<[number, number]> } {
+export function createSimplex4D(size = 1): Polytope4D {
   // 5 vertices equidistant in 4D (regular 5-cell). We'll use a simple construction then normalize.
   const s = size
   const raw: Vec4[] = [
@@ -52,10 +61,10 @@ export function createSimplex4D(size = 1): { vertices: Vec4[]; edges: Array<[num
   for (let i = 0; i < vertices.length; i++) {
     for (let j = i + 1; j < vertices.length; j++) edges.push([i, j])
   }
-  return { vertices, edges }
+  return withFacesAndCells({ name: 'simplex', vertices, edges })
 }
 
-export function createCrossPolytope4D(size = 1): { vertices: Vec4[]; edges: Array<[number, number]> } {
+export function createCrossPolytope4D(size = 1): Polytope4D {
   // 16-cell (cross polytope): vertices at ± along each axis
   const s = size
   const vertices: Vec4[] = [
@@ -69,10 +78,10 @@ export function createCrossPolytope4D(size = 1): { vertices: Vec4[]; edges: Arra
     { x: 0, y: 0, z: 0, w: -s },
   ]
   const edges = edgesByMinDistance(vertices)
-  return { vertices, edges }
+  return withFacesAndCells({ name: 'cross', vertices, edges })
 }
 
-export function create24Cell(size = 1): { vertices: Vec4[]; edges: Array<[number, number]> } {
+export function create24Cell(size = 1): Polytope4D {
   // 24-cell: all permutations of (±1, ±1, 0, 0)
   const base: number[][] = []
   const coords = [0, 1, 2, 3]
@@ -93,37 +102,313 @@ export function create24Cell(size = 1): { vertices: Vec4[]; edges: Array<[number
   // Normalize scale so average edge length roughly matches size
   const vertices: Vec4[] = base.map(([x, y, z, w]) => ({ x: x * size, y: y * size, z: z * size, w: w * size }))
   const edges = edgesByMinDistance(vertices)
-  return { vertices, edges }
+  return withFacesAndCells({ name: '24cell', vertices, edges })
+}
+
+const PHI = (1 + Math.sqrt(5)) / 2
+
+// All permutations of `base` (only even ones when `evenOnly`), with every sign choice on non-zero entries, deduplicated
+function signedPermutations(base: number[], evenOnly: boolean): Vec4[] {
+  const perms: number[][] = []
+  const permute = (rest: number[], acc: number[], parity: number) => {
+    if (rest.length === 0) {
+      if (!evenOnly || parity === 0) perms.push(acc)
+      return
+    }
+    for (let i = 0; i < rest.length; i++) {
+      // picking index i out of the remaining list costs i transpositions
+      permute([...rest.slice(0, i), ...rest.slice(i + 1)], [...acc, rest[i]], (parity + i) % 2)
+    }
+  }
+  permute(base, [], 0)
+  const seen = new Set<string>()
+  const out: Vec4[] = []
+  for (const p of perms) {
+    for (let mask = 0; mask < 16; mask++) {
+      const v = p.map((c, k) => (mask & (1 << k) ? -c : c))
+      if (v.some((c, k) => c === 0 && (mask & (1 << k)))) continue
+      const key = v.map(c => c.toFixed(9)).join(',')
+      if (seen.has(key)) continue
+      seen.add(key)
+      out.push({ x: v[0], y: v[1], z: v[2], w: v[3] })
+    }
+  }
+  return out
+}
+
+function scaleToRadius(vertices: Vec4[], radius: number): Vec4[] {
+  const r = Math.hypot(vertices[0].x, vertices[0].y, vertices[0].z, vertices[0].w) || 1
+  const k = radius / r
+  return vertices.map(v => ({ x: v.x * k, y: v.y * k, z: v.z * k, w: v.w * k }))
+}
+
+export function create600Cell(radius = 1): Polytope4D {
+  // 120 vertices: 8 axis points, 16 half-unit points and 96 even permutations of (±φ, ±1, ±1/φ, 0)/2
+  const raw = [
+    ...signedPermutations([1, 0, 0, 0], false),
+    ...signedPermutations([0.5, 0.5, 0.5, 0.5], false),
+    ...signedPermutations([PHI / 2, 0.5, 1 / (2 * PHI), 0], true),
+  ]
+  const vertices = scaleToRadius(raw, radius)
+  return withFacesAndCells({ name: '600cell', vertices, edges: edgesByMinDistance(vertices) })
+}
+
+export function create120Cell(radius = 1): Polytope4D {
+  // 600 vertices with circumradius 2√2 before scaling
+  const s5 = Math.sqrt(5)
+  const raw = [
+    ...signedPermutations([0, 0, 2, 2], false),
+    ...signedPermutations([1, 1, 1, s5], false),
+    ...signedPermutations([PHI ** -2, PHI, PHI, PHI], false),
+    ...signedPermutations([1 / PHI, 1 / PHI, 1 / PHI, PHI ** 2], false),
+    ...signedPermutations([0, PHI ** -2, 1, PHI ** 2], true),
+    ...signedPermutations([0, 1 / PHI, PHI, s5], true),
+    ...signedPermutations([1 / PHI, 1, PHI, 2], true),
+  ]
+  const vertices = scaleToRadius(raw, radius)
+  return withFacesAndCells({ name: '120cell', vertices, edges: edgesByMinDistance(vertices) })
+}
+
+function dist2(a: Vec4, b: Vec4): number {
+  const dx = a.x - b.x
+  const dy = a.y - b.y
+  const dz = a.z - b.z
+  const dw = a.w - b.w
+  return dx * dx + dy * dy + dz * dz + dw * dw
 }
 
+// Connect every pair at the smallest non-zero distance. Vertices are swept in x order so each
+// one is only compared against neighbours within the search radius, which keeps the 120-cell fast.
 export function edgesByMinDistance(vertices: Vec4[], epsilon = 1e-6): Array<[number, number]> {
-  let min = Infinity
   const n = vertices.length
+  const order = vertices.map((_, i) => i).sort((a, b) => vertices[a].x - vertices[b].x)
   // find smallest non-zero squared distance
-  for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      const dx = vertices[i].x - vertices[j].x
-      const dy = vertices[i].y - vertices[j].y
-      const dz = vertices[i].z - vertices[j].z
-      const dw = vertices[i].w - vertices[j].w
-      const d2 = dx * dx + dy * dy + dz * dz + dw * dw
+  let min = Infinity
+  for (let oi = 0; oi < n; oi++) {
+    const vi = vertices[order[oi]]
+    for (let oj = oi + 1; oj < n; oj++) {
+      const vj = vertices[order[oj]]
+      const dx = vj.x - vi.x
+      if (dx * dx >= min) break
+      const d2 = dist2(vi, vj)
       if (d2 > epsilon && d2 < min) min = d2
     }
   }
+  const tolerance = 1e-6 * Math.max(1, min)
   const edges: Array<[number, number]> = []
-  for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      const dx = vertices[i].x - vertices[j].x
-      const dy = vertices[i].y - vertices[j].y
-      const dz = vertices[i].z - vertices[j].z
-      const dw = vertices[i].w - vertices[j].w
-      const d2 = dx * dx + dy * dy + dz * dz + dw * dw
-      if (Math.abs(d2 - min) < 1e-6) edges.push([i, j])
+  for (let oi = 0; oi < n; oi++) {
+    const i = order[oi]
+    for (let oj = oi + 1; oj < n; oj++) {
+      const j = order[oj]
+      const dx = vertices[j].x - vertices[i].x
+      if (dx * dx > min + tolerance) break
+      if (Math.abs(dist2(vertices[i], vertices[j]) - min) < tolerance) edges.push(i < j ? [i, j] : [j, i])
     }
   }
+  // keep the (i, j) lexicographic order callers have always seen
+  edges.sort((a, b) => a[0] - b[0] || a[1] - b[1])
   return edges
 }
 
+function sub(a: Vec4, b: Vec4): number[] {
+  return [a.x - b.x, a.y - b.y, a.z - b.z, a.w - b.w]
+}
+
+function dot(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3]
+}
+
+// Dimension of the span of `vectors` (Gram-Schmidt with a relative tolerance)
+function rank(vectors: number[][], epsilon = 1e-6): number {
+  const basis: number[][] = []
+  for (const v of vectors) {
+    const r = v.slice()
+    for (const b of basis) {
+      const k = dot(r, b)
+      for (let i = 0; i < 4; i++) r[i] -= k * b[i]
+    }
+    const len = Math.sqrt(dot(r, r))
+    if (len > epsilon * Math.max(1, Math.sqrt(dot(v, v)))) basis.push(r.map(c => c / len))
+  }
+  return basis.length
+}
+
+// Vector orthogonal to a, b and c in 4D (cofactor expansion of the 4x4 determinant)
+function cross4(a: number[], b: number[], c: number[]): number[] {
+  const det3 = (i: number, j: number, k: number) =>
+    a[i] * (b[j] * c[k] - b[k] * c[j]) - a[j] * (b[i] * c[k] - b[k] * c[i]) + a[k] * (b[i] * c[j] - b[j] * c[i])
+  return [det3(1, 2, 3), -det3(0, 2, 3), det3(0, 1, 3), -det3(0, 1, 2)]
+}
+
+// Candidate 2-faces: planar, chordless cycles of the edge graph, each listed once in walk order
+export function planarCycles(vertices: Vec4[], edges: Array<[number, number]>, maxLength = 8): number[][] {
+  const adj: Array<Set<number>> = vertices.map(() => new Set())
+  for (const [a, b] of edges) { adj[a].add(b); adj[b].add(a) }
+  const cycles: number[][] = []
+  const seen = new Set<string>()
+  const path: number[] = []
+  // cycles are rooted at their smallest vertex; any prefix that leaves a plane or gains a chord is dropped early
+  const walk = (start: number, v: number) => {
+    path.push(v)
+    const o = vertices[start]
+    const flat = path.length < 4 || rank(path.slice(1).map(i => sub(vertices[i], o))) <= 2
+    const chordless = path.slice(1, -2).every(u => !adj[v].has(u))
+    if (flat && chordless) {
+      if (path.length >= 3 && adj[v].has(start)) {
+        const key = path.slice().sort((x, y) => x - y).join(',')
+        if (!seen.has(key)) {
+          seen.add(key)
+          cycles.push(path.slice())
+        }
+      } else if (path.length < maxLength) {
+        for (const n of adj[v]) if (n > start && !path.includes(n)) walk(start, n)
+      }
+    }
+    path.pop()
+  }
+  for (let start = 0; start < vertices.length; start++) walk(start, start)
+  return cycles
+}
+
+// 3-cells as lists of face indices: the faces lying together in a supporting hyperplane of a convex polytope
+export function findCells(vertices: Vec4[], faces: number[][], epsilon = 1e-6): number[][] {
+  const faceEdges = faces.map(f => f.map((v, i) => {
+    const w = f[(i + 1) % f.length]
+    return v < w ? `${v},${w}` : `${w},${v}`
+  }))
+  const facesByEdge = new Map<string, number[]>()
+  faceEdges.forEach((keys, fi) => keys.forEach(k => {
+    const list = facesByEdge.get(k)
+    if (list) list.push(fi)
+    else facesByEdge.set(k, [fi])
+  }))
+  const scale = Math.max(...vertices.map(v => Math.hypot(v.x, v.y, v.z, v.w)), 1)
+  const tol = epsilon * scale
+  const cells: number[][] = []
+  const cellsOfFace: Array<Set<number>> = faces.map(() => new Set())
+
+  for (let fi = 0; fi < faces.length; fi++) {
+    for (const key of faceEdges[fi]) {
+      for (const gi of facesByEdge.get(key)!) {
+        if (gi <= fi) continue
+        // already found a cell containing both
+        if ([...cellsOfFace[fi]].some(c => cellsOfFace[gi].has(c))) continue
+        const f = faces[fi], g = faces[gi]
+        const o = vertices[f[0]]
+        const extra = g.find(v => !f.includes(v))
+        if (extra === undefined) continue
+        let n = cross4(sub(vertices[f[1]], o), sub(vertices[f[2]], o), sub(vertices[extra], o))
+        const len = Math.sqrt(dot(n, n))
+        if (len < tol) continue
+        n = n.map(c => c / len)
+        const d = dot(n, [o.x, o.y, o.z, o.w])
+        const side = vertices.map(v => dot(n, [v.x, v.y, v.z, v.w]) - d)
+        // supporting hyperplane: every vertex on one side
+        if (side.some(x => x > tol) && side.some(x => x < -tol)) continue
+        const members: number[] = []
+        faces.forEach((face, hi) => { if (face.every(v => Math.abs(side[v]) <= tol)) members.push(hi) })
+        const id = cells.length
+        cells.push(members)
+        for (const hi of members) cellsOfFace[hi].add(id)
+      }
+    }
+  }
+  return cells
+}
+
+// Fill in faces and cells when a polytope only has vertices and edges. On a convex polytope every
+// 2-face borders exactly two cells, which weeds out planar cycles through the interior (great hexagons etc).
+export function withFacesAndCells(p: Polytope4D): Polytope4D {
+  if (p.faces) return { ...p, cells: p.cells ?? findCells(p.vertices, p.faces) }
+  const candidates = planarCycles(p.vertices, p.edges)
+  const candidateCells = findCells(p.vertices, candidates)
+  if (candidateCells.length === 0) return { ...p, faces: candidates, cells: [] }
+  const count = candidates.map(() => 0)
+  for (const cell of candidateCells) for (const f of cell) count[f]++
+  const remap = new Map<number, number>()
+  const faces: number[][] = []
+  candidates.forEach((c, i) => {
+    if (count[i] < 2) return
+    remap.set(i, faces.length)
+    faces.push(c)
+  })
+  const cells = candidateCells.map(cell => cell.filter(f => remap.has(f)).map(f => remap.get(f)!))
+  return { ...p, faces, cells }
+}
+
+type PolytopeJSON = {
+  name: string
+  vertices: number[][]
+  edges?: number[][]
+  faces?: number[][]
+  cells?: number[][]
+}
+
+// Parse the JSON shape format: { name, vertices: [[x,y,z,w], ...], edges?, faces?, cells? }.
+// Edges default to the shortest vertex distances when omitted.
+export function polytopeFromJSON(data: unknown): Polytope4D {
+  const json = data as PolytopeJSON
+  if (!json || typeof json.name !== 'string' || !Array.isArray(json.vertices)) throw new Error('polytope JSON needs a name and vertices')
+  const vertices = json.vertices.map((v, i) => {
+    if (!Array.isArray(v) || v.length !== 4 || v.some(c => typeof c !== 'number')) throw new Error(`${json.name}: vertex ${i} is not [x, y, z, w]`)
+    return { x: v[0], y: v[1], z: v[2], w: v[3] }
+  })
+  const n = vertices.length
+  const checkIndices = (what: string, list: number[][], max: number) => {
+    list.forEach((item, i) => {
+      if (!Array.isArray(item) || item.some(k => !Number.isInteger(k) || k < 0 || k >= max)) throw new Error(`${json.name}: ${what} ${i} has an out-of-range index`)
+    })
+  }
+  let edges: Array<[number, number]>
+  if (json.edges) {
+    checkIndices('edge', json.edges, n)
+    edges = json.edges.map(([a, b]) => [a, b] as [number, number])
+  } else {
+    edges = edgesByMinDistance(vertices)
+  }
+  if (json.faces) checkIndices('face', json.faces, n)
+  if (json.cells) checkIndices('cell', json.cells, json.faces?.length ?? 0)
+  return withFacesAndCells({ name: json.name, vertices, edges, faces: json.faces, cells: json.cells })
+}
+
+export async function loadPolytope(url: string): Promise<Polytope4D> {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`failed to load polytope ${url}: ${res.status}`)
+  return polytopeFromJSON(await res.json())
+}
+
+// Shapes available by id; the sizes keep the built-ins visually comparable
+const polytopes = new Map<string, () => Polytope4D>([
+  ['tesseract', () => createTesseract(1)],
+  ['simplex', () => createSimplex4D(1.2)],
+  ['cross', () => createCrossPolytope4D(1.2)],
+  ['24cell', () => create24Cell(0.9)],
+  ['120cell', () => create120Cell(1.6)],
+  ['600cell', () => create600Cell(1.5)],
+])
+
+// Built shapes are cached: the 120-cell's faces and cells take a moment to find
+const built = new Map<string, Polytope4D>()
+
+export function registerPolytope(id: string, factory: () => Polytope4D): void {
+  polytopes.set(id, factory)
+  built.delete(id)
+}
+
+export function getPolytope(id: string): Polytope4D {
+  const cached = built.get(id)
+  if (cached) return cached
+  const factory = polytopes.get(id)
+  if (!factory) throw new Error(`unknown polytope "${id}"`)
+  const poly = factory()
+  built.set(id, poly)
+  return poly
+}
+
+export function polytopeIds(): string[] {
+  return [...polytopes.keys()]
+}
+
 export function apply4dRotation(v: Vec4, a: RotationAngles4D): Vec4 {
   let { x, y, z, w } = v
   // XY rotation
@@ -188,4 +473,112 @@ export function project4Dto3D(v: Vec4, perspectiveDistance = 3): { x: number; y:
   return { x, y, z, t }
 }
 
+export type ProjectionMode = 'perspective' | 'orthographic' | 'stereographic' | 'schlegel' | 'slice'
+
+export type Projected = { x: number; y: number; z: number; t: number }
+
+export type ProjectionOptions = {
+  mode: ProjectionMode
+  // viewpoint distance along w for perspective and Schlegel
+  distance: number
+  // Schlegel: vertex indices of every 3-cell, and which one to look through
+  cells?: number[][]
+  cell?: number
+}
+
+// Rotate v in the plane spanned by unit `n` and the w axis so that n lands on +w
+function alignToW(v: Vec4, n: Vec4): Vec4 {
+  const c = n.w
+  if (c > 1 - 1e-9) return v
+  if (c < -1 + 1e-9) return { x: v.x, y: -v.y, z: v.z, w: -v.w }
+  // orthonormal partner of n within the plane, pointing toward +w
+  const k = 1 / Math.sqrt(1 - c * c)
+  const p = { x: -c * n.x * k, y: -c * n.y * k, z: -c * n.z * k, w: (1 - c * n.w) * k }
+  const a = v.x * n.x + v.y * n.y + v.z * n.z + v.w * n.w
+  const b = v.x * p.x + v.y * p.y + v.z * p.z + v.w * p.w
+  const s = Math.sqrt(1 - c * c)
+  const da = (c - 1) * a - s * b
+  const db = (c - 1) * b + s * a
+  return { x: v.x + da * n.x + db * p.x, y: v.y + da * n.y + db * p.y, z: v.z + da * n.z + db * p.z, w: v.w + da * n.w + db * p.w }
+}
+
+// Project already-rotated vertices to 3D. `t` in [0,1] is the w-depth used for coloring.
+// 'slice' falls back to orthographic here; use slicePolytope for the cross-section itself.
+export function projectVertices(vertices: Vec4[], opts: ProjectionOptions): Projected[] {
+  switch (opts.mode) {
+    case 'orthographic':
+    case 'slice':
+      return vertices.map(v => ({ x: v.x, y: v.y, z: v.z, t: 0.5 + 0.5 * Math.tanh((v.w / opts.distance) * 1.6) }))
+    case 'stereographic':
+      // from the pole of each vertex's 3-sphere; denominators are clamped so the pole itself stays finite
+      return vertices.map(v => {
+        const r = Math.hypot(v.x, v.y, v.z, v.w) || 1
+        const k = r / Math.max(r - v.w, r * 0.05)
+        return { x: v.x * k, y: v.y * k, z: v.z * k, t: 0.5 + 0.5 * (v.w / r) }
+      })
+    case 'schlegel': {
+      // Look through the chosen cell: turn its center onto +w, then view from just outside it
+      const cells = opts.cells ?? []
+      const chosen = cells[opts.cell ?? 0]
+      if (!chosen?.length) return vertices.map(v => project4Dto3D(v, opts.distance))
+      const centers = cells.map(cell => {
+        const c = { x: 0, y: 0, z: 0, w: 0 }
+        for (const i of cell) { c.x += vertices[i].x; c.y += vertices[i].y; c.z += vertices[i].z; c.w += vertices[i].w }
+        return { x: c.x / cell.length, y: c.y / cell.length, z: c.z / cell.length, w: c.w / cell.length }
+      })
+      const center = centers[opts.cell ?? 0]
+      const h = Math.hypot(center.x, center.y, center.z, center.w)
+      if (h < 1e-9) return vertices.map(v => project4Dto3D(v, opts.distance))
+      const n = { x: center.x / h, y: center.y / h, z: center.z / h, w: center.w / h }
+      // The eye must stay beneath every other cell's hyperplane or it would see them too:
+      // go halfway to the nearest one along n (about 1.04h for the 600-cell), at most 3h.
+      let limit = h * 5
+      for (const c of centers) {
+        const hc = Math.hypot(c.x, c.y, c.z, c.w)
+        const cos = (c.x * n.x + c.y * n.y + c.z * n.z + c.w * n.w) / hc
+        if (cos > 1e-6 && cos < 1 - 1e-9) limit = Math.min(limit, hc / cos)
+      }
+      const eye = h + (limit - h) * 0.5
+      const aligned = vertices.map(v => alignToW(v, n))
+      // scale so the outer boundary (the chosen cell) matches the polytope's radius
+      let radius = 0, rim = 0
+      for (const v of vertices) radius = Math.max(radius, Math.hypot(v.x, v.y, v.z, v.w))
+      for (const i of chosen) rim = Math.max(rim, Math.hypot(aligned[i].x, aligned[i].y, aligned[i].z))
+      const scale = rim > 1e-9 ? radius / rim : 1
+      return aligned.map(a => {
+        const k = scale * (eye - h) / Math.max(eye - a.w, (eye - h) * 0.5)
+        return { x: a.x * k, y: a.y * k, z: a.z * k, t: 0.5 + 0.5 * Math.tanh((a.w / eye) * 1.6) }
+      })
+    }
+    case 'perspective':
+    default:
+      return vertices.map(v => project4Dto3D(v, opts.distance))
+  }
+}
 
+// 3D cross-section at w = level: edges crossing the hyperplane give the points,
+// and each 2-face crossing it contributes one segment between its two crossing edges.
+export function slicePolytope(vertices: Vec4[], edges: Array<[number, number]>, faces: number[][], level: number): { points: Projected[]; segments: Array<[number, number]> } {
+  const points: Projected[] = []
+  const pointOfEdge = new Map<string, number>()
+  edges.forEach(([a, b]) => {
+    const va = vertices[a], vb = vertices[b]
+    const da = va.w - level, db = vb.w - level
+    if ((da < 0 && db < 0) || (da > 0 && db > 0) || da === db) return
+    const u = da / (da - db)
+    pointOfEdge.set(a < b ? `${a},${b}` : `${b},${a}`, points.length)
+    // color the section by how far along the edge it was cut
+    points.push({ x: va.x + (vb.x - va.x) * u, y: va.y + (vb.y - va.y) * u, z: va.z + (vb.z - va.z) * u, t: u })
+  })
+  const segments: Array<[number, number]> = []
+  for (const f of faces) {
+    const hits: number[] = []
+    for (let i = 0; i < f.length; i++) {
+      const a = f[i], b = f[(i + 1) % f.length]
+      const p = pointOfEdge.get(a < b ? `${a},${b}` : `${b},${a}`)
+      if (p !== undefined && !hits.includes(p)) hits.push(p)
+    }
+    if (hits.length === 2) segments.push([hits[0], hits[1]])
+  }
+  return { points, segments }
+}
@@ -0,0 +1,16 @@
+// gifenc ships without types; only the parts used here
+declare module 'gifenc' {
+  export type Palette = number[][]
+  export type QuantizeFormat = 'rgb565' | 'rgb444' | 'rgba4444'
+
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: { format?: QuantizeFormat }): Palette
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: QuantizeFormat): Uint8Array
+
+  export type GIFStream = {
+    writeFrame(index: Uint8Array, width: number, height: number, opts?: { palette?: Palette; delay?: number; repeat?: number; transparent?: boolean; transparentIndex?: number; dispose?: number }): void
+    finish(): void
+    bytes(): Uint8Array
+  }
+
+  export function GIFEncoder(opts?: { auto?: boolean; initialCapacity?: number }): GIFStream
+}
@@ -0,0 +1,252 @@
+import * as THREE from 'three'
+import type { Polytope4D, ProjectionMode } from './geometry4d'
+import { paletteColor, type PaletteDef } from './palette'
+import type { Mat4x4 } from './rotation4d'
+import { applyStyleColors } from './styles'
+import type { StyleId } from './traits'
+
+// The wireframe drawn on the GPU. The 4D vertices are uploaded once as vec4s; per frame
+// only the rotation matrix and a few scalars change, and the vertex shader rotates, projects and
+// colors from a gradient texture of the palette. Schlegel diagrams and cross-sections need
+// whole-polytope work every frame and stay on the CPU path (frameGeometry in artwork.ts).
+
+export const GPU_PROJECTIONS: readonly ProjectionMode[] = ['perspective', 'stereographic', 'orthographic']
+
+// gradient texture: depth t across, per-edge hue jitter down
+const LUT_WIDTH = 256
+const LUT_ROWS = 32
+
+export type GpuFrame = {
+  rotation: Mat4x4
+  projection: ProjectionMode
+  distance: number
+  // phase of the glow flicker, oscillator(5) * tau
+  flicker: number
+}
+
+export type GpuWireframe = {
+  lines: THREE.LineSegments
+  points: THREE.Points
+  lineMaterial: THREE.ShaderMaterial
+  pointMaterial: THREE.ShaderMaterial
+  setPolytope(poly: Polytope4D): void
+  // bakes the gradient for this palette, base hue and style tint
+  setPalette(def: PaletteDef, baseHue: number, style: StyleId): void
+  // drawing-buffer height, for perspective point sizes
+  setViewportHeight(height: number): void
+  update(frame: GpuFrame): void
+  dispose(): void
+}
+
+const PROJECTION_CODE: Partial<Record<ProjectionMode, number>> = { perspective: 0, stereographic: 1, orthographic: 2 }
+
+// Same formulas as projectVertices in geometry4d.ts
+const projectChunk = /* glsl */ `
+  attribute float w;
+  attribute float jitter;
+  uniform mat4 uRotation;
+  uniform int uProjection;
+  uniform float uDistance;
+  uniform sampler2D uPalette;
+  varying vec3 vColor;
+
+  vec3 project4(vec4 v, out float t) {
+    if (uProjection == 1) {
+      float r = length(v);
+      if (r == 0.0) r = 1.0;
+      t = 0.5 + 0.5 * (v.w / r);
+      return v.xyz * (r / max(r - v.w, r * 0.05));
+    }
+    t = 0.5 + 0.5 * tanh((v.w / uDistance) * 1.6);
+    if (uProjection == 2) return v.xyz;
+    float d = uDistance - v.w;
+    return v.xyz * (d != 0.0 ? uDistance / d : 1.0);
+  }
+
+  vec3 gradient(float t) {
+    vec2 uv = vec2((t * ${LUT_WIDTH - 1}.0 + 0.5) / ${LUT_WIDTH}.0, (jitter * ${LUT_ROWS - 1}.0 + 0.5) / ${LUT_ROWS}.0);
+    return texture2D(uPalette, uv).rgb;
+  }
+`
+
+const lineVertex = /* glsl */ `
+  ${projectChunk}
+  void main() {
+    float t;
+    vec3 p = project4(uRotation * vec4(position, w), t);
+    vColor = gradient(t);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(p, 1.0);
+  }
+`
+
+// Glow: the flicker is the CPU path's offsetHSL(0, f, f / 2)
+const pointVertex = /* glsl */ `
+  ${projectChunk}
+  attribute float vertexIndex;
+  uniform float uFlicker;
+  uniform float uSize;
+  uniform float uScale;
+
+  vec3 rgbToHsl(vec3 c) {
+    float hi = max(c.r, max(c.g, c.b)), lo = min(c.r, min(c.g, c.b));
+    float l = (hi + lo) * 0.5;
+    if (hi == lo) return vec3(0.0, 0.0, l);
+    float d = hi - lo;
+    float s = l <= 0.5 ? d / (hi + lo) : d / (2.0 - hi - lo);
+    float h = hi == c.r ? (c.g - c.b) / d + (c.g < c.b ? 6.0 : 0.0) : hi == c.g ? (c.b - c.r) / d + 2.0 : (c.r - c.g) / d + 4.0;
+    return vec3(h / 6.0, s, l);
+  }
+
+  vec3 hslToRgb(vec3 hsl) {
+    vec3 k = clamp(abs(mod(hsl.x * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+    return hsl.z + hsl.y * (k - 0.5) * (1.0 - abs(2.0 * hsl.z - 1.0));
+  }
+
+  void main() {
+    float t;
+    vec3 p = project4(uRotation * vec4(position, w), t);
+    vec3 hsl = rgbToHsl(gradient(t));
+    float f = 0.05 * sin(uFlicker + vertexIndex);
+    vColor = hslToRgb(vec3(hsl.x, clamp(hsl.y + f, 0.0, 1.0), clamp(hsl.z + f * 0.5, 0.0, 1.0)));
+    vec4 mv = modelViewMatrix * vec4(p, 1.0);
+    gl_PointSize = uSize * (uScale / -mv.z);
+    gl_Position = projectionMatrix * mv;
+  }
+`
+
+const fragment = /* glsl */ `
+  uniform float opacity;
+  varying vec3 vColor;
+  void main() {
+    gl_FragColor = vec4(vColor, opacity);
+    #include <colorspace_fragment>
+  }
+`
+
+// One vec4 per vertex in a single buffer, read as three's position (xyz), which it needs to draw
+// at all, and w beside it
+function setVec4(geometry: THREE.BufferGeometry, xyzw: Float32Array) {
+  const buffer = new THREE.InterleavedBuffer(xyzw, 4)
+  geometry.setAttribute('position', new THREE.InterleavedBufferAttribute(buffer, 3, 0))
+  geometry.setAttribute('w', new THREE.InterleavedBufferAttribute(buffer, 1, 3))
+}
+
+// Per-endpoint jitter row, the fraction paletteBaseHue scatters the base hue by
+function jitterOf(seed: number): number {
+  return ((Math.sin(seed * 12.9898) * 43758.5453) % 1 + 1) % 1
+}
+
+export function createGpuWireframe(): GpuWireframe {
+  const lut = new Uint16Array(LUT_WIDTH * LUT_ROWS * 4)
+  const texture = new THREE.DataTexture(lut, LUT_WIDTH, LUT_ROWS, THREE.RGBAFormat, THREE.HalfFloatType)
+  texture.minFilter = texture.magFilter = THREE.LinearFilter
+  texture.wrapS = texture.wrapT = THREE.ClampToEdgeWrapping
+  texture.colorSpace = THREE.NoColorSpace
+
+  const shared = {
+    uRotation: { value: new THREE.Matrix4() },
+    uProjection: { value: 0 },
+    uDistance: { value: 3 },
+    uPalette: { value: texture },
+  }
+  const lineMaterial = new THREE.ShaderMaterial({
+    uniforms: { ...shared, opacity: { value: 0.65 } },
+    vertexShader: lineVertex,
+    fragmentShader: fragment,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+  })
+  const pointMaterial = new THREE.ShaderMaterial({
+    uniforms: { ...shared, opacity: { value: 0.85 }, uFlicker: { value: 0 }, uSize: { value: 0.05 }, uScale: { value: 1 } },
+    vertexShader: pointVertex,
+    fragmentShader: fragment,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  })
+
+  const lineGeometry = new THREE.BufferGeometry()
+  const pointGeometry = new THREE.BufferGeometry()
+  const lines = new THREE.LineSegments(lineGeometry, lineMaterial)
+  const points = new THREE.Points(pointGeometry, pointMaterial)
+  // positions live in 4D, so three's 3D bounds would cull the wrong things
+  lines.frustumCulled = false
+  points.frustumCulled = false
+
+  const rgb = new Float32Array(LUT_WIDTH * LUT_ROWS * 3)
+  const col = new THREE.Color()
+
+  return {
+    lines,
+    points,
+    lineMaterial,
+    pointMaterial,
+    setPolytope(poly) {
+      // two endpoints per edge; the jitter seed matches writeEdges (edge index + vertex index)
+      const ends = new Float32Array(poly.edges.length * 8)
+      const endJitter = new Float32Array(poly.edges.length * 2)
+      poly.edges.forEach(([a, b], i) => {
+        for (const [k, vi] of [[0, a], [1, b]]) {
+          const v = poly.vertices[vi]
+          ends.set([v.x, v.y, v.z, v.w], (i * 2 + k) * 4)
+          endJitter[i * 2 + k] = jitterOf(i + vi)
+        }
+      })
+      lineGeometry.dispose()
+      setVec4(lineGeometry, ends)
+      lineGeometry.setAttribute('jitter', new THREE.BufferAttribute(endJitter, 1))
+      lineGeometry.setDrawRange(0, poly.edges.length * 2)
+
+      const verts = new Float32Array(poly.vertices.length * 4)
+      const vertJitter = new Float32Array(poly.vertices.length)
+      const index = new Float32Array(poly.vertices.length)
+      poly.vertices.forEach((v, vi) => {
+        verts.set([v.x, v.y, v.z, v.w], vi * 4)
+        vertJitter[vi] = jitterOf(vi)
+        index[vi] = vi
+      })
+      pointGeometry.dispose()
+      setVec4(pointGeometry, verts)
+      pointGeometry.setAttribute('jitter', new THREE.BufferAttribute(vertJitter, 1))
+      pointGeometry.setAttribute('vertexIndex', new THREE.BufferAttribute(index, 1))
+      pointGeometry.setDrawRange(0, poly.vertices.length)
+    },
+    setPalette(def, baseHue, style) {
+      for (let row = 0, i = 0; row < LUT_ROWS; row++) {
+        // the hue paletteBaseHue gives an endpoint whose jitter is this row
+        const hue = (baseHue + (row / (LUT_ROWS - 1)) * (def.jitter ?? 0)) % 360
+        for (let x = 0; x < LUT_WIDTH; x++) {
+          paletteColor(def, hue, x / (LUT_WIDTH - 1), col)
+          rgb[i++] = col.r; rgb[i++] = col.g; rgb[i++] = col.b
+        }
+      }
+      // style tints are per color, so they bake in too (before the glow flicker, unlike the CPU path)
+      applyStyleColors(style, rgb)
+      for (let p = 0, q = 0; p < rgb.length; p += 3, q += 4) {
+        lut[q] = THREE.DataUtils.toHalfFloat(rgb[p])
+        lut[q + 1] = THREE.DataUtils.toHalfFloat(rgb[p + 1])
+        lut[q + 2] = THREE.DataUtils.toHalfFloat(rgb[p + 2])
+        lut[q + 3] = THREE.DataUtils.toHalfFloat(1)
+      }
+      texture.needsUpdate = true
+    },
+    setViewportHeight(height) {
+      // PointsMaterial's size attenuation: size * (height / 2) / depth
+      pointMaterial.uniforms.uScale.value = height / 2
+    },
+    update(frame) {
+      // Mat4x4 is row-major; Matrix4.fromArray reads column-major
+      shared.uRotation.value.fromArray(frame.rotation).transpose()
+      shared.uProjection.value = PROJECTION_CODE[frame.projection] ?? 0
+      shared.uDistance.value = frame.distance
+      pointMaterial.uniforms.uFlicker.value = frame.flicker
+    },
+    dispose() {
+      lineGeometry.dispose()
+      pointGeometry.dispose()
+      lineMaterial.dispose()
+      pointMaterial.dispose()
+      texture.dispose()
+    },
+  }
+}
@@ -0,0 +1,78 @@
+// Kiosk mode for installations: the artwork fullscreen with the control panel hidden, an
+// optional one-line caption, and the screen kept awake. Leaving fullscreen (Esc) leaves kiosk mode.
+// Which round shows when is up to the caller (see roundClock.ts).
+
+export type Kiosk = {
+  readonly active: boolean
+  enter(opts: { caption: boolean }): Promise<void>
+  exit(): void
+  setCaption(text: string): void
+}
+
+export function createKiosk(caption: HTMLElement, onExit: () => void): Kiosk {
+  let active = false
+  let wakeLock: WakeLockSentinel | null = null
+
+  // Screen wake lock where supported; the browser drops it whenever the page is hidden
+  async function lockScreen() {
+    if (!active || wakeLock || !('wakeLock' in navigator) || document.visibilityState !== 'visible') return
+    try {
+      wakeLock = await navigator.wakeLock.request('screen')
+      wakeLock.addEventListener('release', () => { wakeLock = null })
+    } catch (err) {
+      console.warn('Wake lock refused:', err)
+    }
+  }
+
+  const onVisibility = () => { lockScreen() }
+  // fullscreen refused without a gesture: the first tap or click tries again
+  const onPointer = () => {
+    if (active && !document.fullscreenElement) document.documentElement.requestFullscreen().catch(() => {})
+  }
+  const onFullscreen = () => {
+    if (active && !document.fullscreenElement) exit()
+  }
+
+  function exit() {
+    if (!active) return
+    active = false
+    document.body.classList.remove('kiosk')
+    caption.hidden = true
+    document.removeEventListener('visibilitychange', onVisibility)
+    document.removeEventListener('fullscreenchange', onFullscreen)
+    document.removeEventListener('pointerdown', onPointer)
+    wakeLock?.release().catch(() => {})
+    wakeLock = null
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {})
+    onExit()
+  }
+
+  return {
+    get active() {
+      return active
+    },
+    async enter(opts) {
+      if (active) return
+      active = true
+      document.body.classList.add('kiosk')
+      caption.hidden = !opts.caption
+      document.addEventListener('visibilitychange', onVisibility)
+      try {
+        // needs a user gesture; a kiosk browser started on ?kiosk is usually fullscreen already
+        if (!document.fullscreenElement) await document.documentElement.requestFullscreen()
+      } catch (err) {
+        console.warn('Fullscreen refused:', err)
+      }
+      // only now, or the switch into fullscreen would count as leaving it
+      if (active) {
+        document.addEventListener('fullscreenchange', onFullscreen)
+        document.addEventListener('pointerdown', onPointer)
+      }
+      await lockScreen()
+    },
+    exit,
+    setCaption(text) {
+      caption.textContent = text
+    },
+  }
+}
@@ -1,4 +1,8 @@
 import './style.css'
 import { bootstrapApp } from './app'
 
-bootstrapApp()
+bootstrapApp().catch((err) => {
+  console.error(err)
+  const status = document.getElementById('status')
+  if (status) status.textContent = `Could not start: ${err instanceof Error ? err.message : err}`
+})
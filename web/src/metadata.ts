@@ -0,0 +1,107 @@
+import type { BeaconSource } from './beacons'
+import type { VerifiedBeacon } from './drand'
+import { deriveArtParams, ALGORITHM_VERSION, type ArtParams } from './traits'
+import { getPalette, isBuiltinPalette } from './palette'
+
+// Common NFT metadata `attributes` entry
+export type TraitAttribute = {
+  trait_type: string
+  value: string | number
+  display_type?: 'number'
+}
+
+export type ArtworkMetadata = {
+  name: string
+  description: string
+  attributes: TraitAttribute[]
+  properties: {
+    round: number
+    randomness: string
+    signature: string
+    verified: boolean
+    algorithmVersion: number
+    params: ArtParams
+  }
+}
+
+// trait_type -> value -> count
+export type RarityStats = Record<string, Record<string, number>>
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000
+
+// `params` should be what was actually rendered, i.e. with any UI overrides applied
+export function buildMetadata(beacon: VerifiedBeacon, params: ArtParams): ArtworkMetadata {
+  const num = (trait_type: string, value: number): TraitAttribute => ({ trait_type, value: round3(value), display_type: 'number' })
+  return {
+    name: `Tesseract #${beacon.round}`,
+    description: `4D ${params.shape} seeded by drand round ${beacon.round}`,
+    attributes: [
+      { trait_type: 'Shape', value: params.shape },
+      { trait_type: 'Palette', value: params.palette },
+      { trait_type: 'Style', value: params.style },
+      { trait_type: 'Trail', value: params.trail.enabled ? 'on' : 'off' },
+      { trait_type: 'Projection', value: params.projection.mode },
+      { trait_type: 'Hidden Edges', value: params.stroke.hidden },
+      { trait_type: 'Verified', value: beacon.verified ? 'yes' : 'no' },
+      num('Base Hue', params.baseHue),
+      num('Trail Decay', params.trail.decaySeconds),
+      num('Bloom Strength', params.bloom.strength),
+      num('Bloom Radius', params.bloom.radius),
+      num('Star Count', params.stars.count),
+      num('Camera Distance', params.camera.distance),
+      num('Field of View', params.camera.fov),
+      num('Stroke Width', params.stroke.width),
+      num('Stroke Depth', params.stroke.depth),
+      num('Algorithm Version', params.version),
+    ],
+    properties: {
+      round: beacon.round,
+      randomness: beacon.randomness,
+      signature: beacon.signature,
+      verified: beacon.verified,
+      algorithmVersion: params.version,
+      params,
+    },
+  }
+}
+
+// Enough to trace a print back to its beacon and re-render it (PNG tEXt, SVG <metadata>)
+export function buildProvenance(beacon: VerifiedBeacon, params: ArtParams, sourceId: string): Record<string, string> {
+  const out: Record<string, string> = {
+    Title: `Tesseract #${beacon.round}`,
+    Software: 'genart-tesseract',
+    Source: sourceId,
+    Round: String(beacon.round),
+    Randomness: beacon.randomness,
+    Signature: beacon.signature,
+    Verified: String(beacon.verified),
+    'Algorithm Version': String(params.version),
+    Params: JSON.stringify(params),
+  }
+  // edited and imported palettes are not in the code, so the print carries its own
+  if (!isBuiltinPalette(params.palette)) out.Palette = JSON.stringify(getPalette(params.palette))
+  return out
+}
+
+// Count categorical attribute values; numeric ones are skipped since nearly every value is unique
+export function tallyAttributes(items: ArtworkMetadata[]): RarityStats {
+  const stats: RarityStats = {}
+  for (const item of items) {
+    for (const attr of item.attributes) {
+      if (attr.display_type === 'number') continue
+      const bucket = stats[attr.trait_type] ??= {}
+      bucket[String(attr.value)] = (bucket[String(attr.value)] ?? 0) + 1
+    }
+  }
+  return stats
+}
+
+// Headless: metadata for every round in [from, to] (seeded traits, no UI overrides)
+export async function metadataForRounds(source: BeaconSource, from: number, to: number, version = ALGORITHM_VERSION): Promise<ArtworkMetadata[]> {
+  const out: ArtworkMetadata[] = []
+  for (let round = from; round <= to; round++) {
+    const beacon = await source.forRound(round)
+    out.push(buildMetadata(beacon, deriveArtParams(beacon.randomness, version)))
+  }
+  return out
+}
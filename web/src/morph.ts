@@ -0,0 +1,103 @@
+import type { Polytope4D, RotationAngles4D, Vec4 } from './geometry4d'
+import { ROTATION_PLANES } from './rotation4d'
+
+// Transitions between shapes and seeds. Each vertex of either shape is paired with the vertex of
+// the other pointing the most nearly the same way, and slides to it in 4D; meanwhile the old
+// edges shrink into their midpoints and the new ones grow out of theirs.
+
+export type Easing = 'linear' | 'smooth' | 'easeIn' | 'easeOut'
+
+export const EASINGS: Record<Easing, (u: number) => number> = {
+  linear: u => u,
+  // cubic ease in-out
+  smooth: u => (u < 0.5 ? 4 * u * u * u : 1 - (-2 * u + 2) ** 3 / 2),
+  easeIn: u => u * u * u,
+  easeOut: u => 1 - (1 - u) ** 3,
+}
+
+export type MorphPlan = {
+  from: Polytope4D
+  to: Polytope4D
+  // for each vertex of `from`, its partner in `to`, and the other way round
+  fromPartner: Int32Array
+  toPartner: Int32Array
+}
+
+function direction(v: Vec4): Vec4 {
+  const r = Math.hypot(v.x, v.y, v.z, v.w) || 1
+  return { x: v.x / r, y: v.y / r, z: v.z / r, w: v.w / r }
+}
+
+// Index in `candidates` of the direction closest to `d`
+function nearest(d: Vec4, candidates: Vec4[]): number {
+  let best = 0, bestDot = -Infinity
+  for (let i = 0; i < candidates.length; i++) {
+    const c = candidates[i]
+    const dot = d.x * c.x + d.y * c.y + d.z * c.z + d.w * c.w
+    if (dot > bestDot) { bestDot = dot; best = i }
+  }
+  return best
+}
+
+export function planMorph(from: Polytope4D, to: Polytope4D): MorphPlan {
+  const a = from.vertices.map(direction)
+  const b = to.vertices.map(direction)
+  return {
+    from,
+    to,
+    fromPartner: Int32Array.from(a, d => nearest(d, b)),
+    toPartner: Int32Array.from(b, d => nearest(d, a)),
+  }
+}
+
+// Moving vertices first (from's, then to's), which is where glow belongs; see morphAnchors
+export function morphAnchors(plan: MorphPlan): number {
+  return plan.from.vertices.length + plan.to.vertices.length
+}
+
+export function morphSegments(plan: MorphPlan): number {
+  return plan.from.edges.length + plan.to.edges.length
+}
+
+const lerp4 = (a: Vec4, b: Vec4, u: number): Vec4 => ({
+  x: a.x + (b.x - a.x) * u, y: a.y + (b.y - a.y) * u, z: a.z + (b.z - a.z) * u, w: a.w + (b.w - a.w) * u,
+})
+
+// The in-between shape at eased progress `u`: morphAnchors() moving vertices, then two
+// vertices per edge, scaled about the edge midpoint (old edges by 1 - u, new ones by u)
+export function morphPolytope(plan: MorphPlan, u: number): Polytope4D {
+  const { from, to } = plan
+  const anchors: Vec4[] = [
+    ...from.vertices.map((v, i) => lerp4(v, to.vertices[plan.fromPartner[i]], u)),
+    ...to.vertices.map((v, i) => lerp4(from.vertices[plan.toPartner[i]], v, u)),
+  ]
+  const vertices = anchors.slice()
+  const edges: Array<[number, number]> = []
+  const addEdge = (a: Vec4, b: Vec4, scale: number) => {
+    const mid = lerp4(a, b, 0.5)
+    vertices.push(lerp4(mid, a, scale), lerp4(mid, b, scale))
+    edges.push([vertices.length - 2, vertices.length - 1])
+  }
+  const offset = from.vertices.length
+  for (const [a, b] of from.edges) addEdge(anchors[a], anchors[b], 1 - u)
+  for (const [a, b] of to.edges) addEdge(anchors[offset + a], anchors[offset + b], u)
+  return { name: `${from.name} → ${to.name}`, vertices, edges }
+}
+
+// Shortest way round between two angles in radians
+export function lerpAngle(a: number, b: number, u: number): number {
+  const d = b - a - Math.PI * 2 * Math.round((b - a) / (Math.PI * 2))
+  return a + d * u
+}
+
+export function blendAngles(a: RotationAngles4D, b: RotationAngles4D, u: number, shortest = true): RotationAngles4D {
+  const out = { ...a }
+  for (const p of ROTATION_PLANES) out[p] = shortest ? lerpAngle(a[p], b[p], u) : a[p] + (b[p] - a[p]) * u
+  return out
+}
+
+// Hue in degrees, the short way round the color wheel
+export function lerpHue(a: number, b: number, u: number): number {
+  const d = ((b - a) % 360 + 540) % 360 - 180
+  return (a + d * u + 360) % 360
+}
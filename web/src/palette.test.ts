@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { generatePalette, getPalette, paletteFromJSON, registerPalette } from './palette'
+
+const stops = [{ t: 0, color: [0.5, 0.1, 200] }, { t: 1, color: [0.7, 0.1, 260] }]
+
+describe('palette ids', () => {
+  it('renames an imported palette that takes a built-in or the generated id', () => {
+    expect(paletteFromJSON({ id: 'ocean', space: 'oklch', stops }).id).toBe('ocean-custom')
+    expect(paletteFromJSON({ id: ' generated ', space: 'oklch', stops }).id).toBe('generated-custom')
+    expect(paletteFromJSON({ id: 'harbour', space: 'oklch', stops }).id).toBe('harbour')
+  })
+
+  it('does not let a palette replace a built-in', () => {
+    const ocean = getPalette('ocean')
+    expect(() => registerPalette({ id: 'ocean', space: 'oklch', stops: [{ t: 0, color: [0, 0, 0] }] })).toThrow(/reserved/)
+    expect(getPalette('ocean')).toBe(ocean)
+  })
+
+  it('keeps the generated id for generatePalette', () => {
+    expect(() => registerPalette({ ...generatePalette('00'.repeat(32)) })).toThrow(/reserved/)
+    const def = generatePalette('ab'.repeat(32))
+    registerPalette(def)
+    expect(getPalette('generated')).toBe(def)
+  })
+})
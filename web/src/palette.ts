@@ -0,0 +1,196 @@
+import * as THREE from 'three'
+import { createTraitRng, type PaletteId } from './traits'
+
+// Palettes are data: a gradient over w-depth t in [0, 1], plus optional scene colors.
+//
+// Stop channels depend on `space`:
+//   hsl    [hue in turns, saturation, lightness]; linear in HSL, as the original palettes were
+//   oklch  [lightness 0..1, chroma 0..~0.37, hue in degrees]; perceptually even gradients
+//   srgb   [r, g, b] in 0..1, gamma-encoded like CSS colors
+// Hues interpolate as written (no wrapping), so 300 -> 420 sweeps through red.
+export type PaletteSpace = 'hsl' | 'oklch' | 'srgb'
+
+export type PaletteStop = { t: number; color: [number, number, number] }
+
+export type PaletteDef = {
+  id: string
+  name?: string
+  space: PaletteSpace
+  // sorted by t
+  stops: PaletteStop[]
+  // hues are offsets from the seeded base hue (turns for hsl, degrees for oklch)
+  relativeHue?: boolean
+  // per-edge base-hue scatter in degrees, for relative hues
+  jitter?: number
+  // CSS colors; background replaces the style's clear color (not the ink paper)
+  background?: string
+  starTint?: string
+}
+
+// The seeded palettes, exactly the HSL offsets they have always been
+const hslPalette = (id: PaletteId, from: [number, number, number], to: [number, number, number], jitter = 40): PaletteDef => ({
+  id, space: 'hsl', relativeHue: true, jitter, stops: [{ t: 0, color: from }, { t: 1, color: to }],
+})
+
+const BUILTIN_PALETTES: PaletteDef[] = [
+  hslPalette('ocean', [0.58, 0.45, 0.45], [0.66, 0.6, 0.55]),
+  hslPalette('pastel', [0.1, 0.35, 0.65], [0.3, 0.35, 0.65]),
+  hslPalette('dusk', [0.8, 0.5, 0.4], [0.92, 0.5, 0.5]),
+  hslPalette('sunrise', [0, 0.6, 0.55], [0.15, 0.6, 0.55]),
+  hslPalette('aurora', [0.4, 0.6, 0.5], [0.9, 0.6, 0.5]),
+  hslPalette('rainforest', [0.33, 0.5, 0.45], [0.43, 0.5, 0.45]),
+  hslPalette('candy', [0, 0.9, 0.6], [0.5, 0.9, 0.6]),
+  hslPalette('fire', [0.02, 0.85, 0.5], [0.1, 0.85, 0.5]),
+  hslPalette('ice', [0.55, 0.35, 0.7], [0.63, 0.35, 0.7]),
+  hslPalette('galaxy', [0.7, 0.7, 0.45], [1.1, 0.7, 0.45]),
+  hslPalette('mono', [0, 0.05, 0.6], [0, 0.05, 0.6], 0),
+  hslPalette('vivid', [0, 0.85, 0.55], [0.35, 0.85, 0.55]),
+]
+
+const palettes = new Map<string, PaletteDef>(BUILTIN_PALETTES.map(p => [p.id, p]))
+// the id generatePalette() registers under, and the palettes it made
+const GENERATED_ID = 'generated'
+const generated = new WeakSet<PaletteDef>()
+
+// Add or replace a palette; built-in ids and 'generated' (outside generatePalette) are not replaceable
+export function registerPalette(def: PaletteDef): void {
+  if (isBuiltinPalette(def.id) || (def.id === GENERATED_ID && !generated.has(def))) {
+    throw new Error(`palette id "${def.id}" is reserved`)
+  }
+  palettes.set(def.id, def)
+}
+
+export function getPalette(id: string): PaletteDef {
+  const def = palettes.get(id)
+  if (!def) throw new Error(`unknown palette "${id}"`)
+  return def
+}
+
+export function paletteIds(): string[] {
+  return [...palettes.keys()]
+}
+
+export function isBuiltinPalette(id: string): boolean {
+  return BUILTIN_PALETTES.some(p => p.id === id)
+}
+
+// Ids only the built-ins and generatePalette() may use
+export function isReservedPaletteId(id: string): boolean {
+  return isBuiltinPalette(id) || id === GENERATED_ID
+}
+
+// Parse and check the JSON palette format (a PaletteDef); stops are sorted by t, and an id taken by
+// a built-in or the generated palette gets a -custom suffix so importing cannot replace it
+export function paletteFromJSON(data: unknown): PaletteDef {
+  const json = data as PaletteDef
+  if (!json || typeof json.id !== 'string' || !json.id.trim()) throw new Error('palette JSON needs an id')
+  if (!['hsl', 'oklch', 'srgb'].includes(json.space)) throw new Error(`${json.id}: space must be hsl, oklch or srgb`)
+  if (!Array.isArray(json.stops) || json.stops.length === 0) throw new Error(`${json.id}: needs at least one stop`)
+  const stops = json.stops.map((s, i) => {
+    if (!s || typeof s.t !== 'number' || !Array.isArray(s.color) || s.color.length !== 3 || s.color.some(c => typeof c !== 'number' || !Number.isFinite(c))) {
+      throw new Error(`${json.id}: stop ${i} needs t and a 3-number color`)
+    }
+    return { t: Math.min(1, Math.max(0, s.t)), color: [s.color[0], s.color[1], s.color[2]] as [number, number, number] }
+  }).sort((a, b) => a.t - b.t)
+  const css = (key: 'background' | 'starTint') => {
+    const v = json[key]
+    if (v === undefined) return undefined
+    if (typeof v !== 'string' || !/^#[0-9a-f]{6}$/i.test(v)) throw new Error(`${json.id}: ${key} must be a #rrggbb color`)
+    return v
+  }
+  const id = json.id.trim()
+  return {
+    id: isReservedPaletteId(id) ? `${id}-custom` : id,
+    name: typeof json.name === 'string' ? json.name : undefined,
+    space: json.space,
+    stops,
+    relativeHue: json.relativeHue === true,
+    jitter: typeof json.jitter === 'number' ? json.jitter : undefined,
+    background: css('background'),
+    starTint: css('starTint'),
+  }
+}
+
+// OKLab (Björn Ottosson) <-> linear sRGB
+function oklchToLinear(l: number, c: number, hDeg: number, out: THREE.Color): THREE.Color {
+  const h = THREE.MathUtils.degToRad(hDeg)
+  const a = c * Math.cos(h), b = c * Math.sin(h)
+  const l_ = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3
+  const m_ = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3
+  const s_ = (l - 0.0894841775 * a - 1.291485548 * b) ** 3
+  const clamp = (v: number) => Math.min(1, Math.max(0, v))
+  return out.setRGB(
+    clamp(4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_),
+    clamp(-1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_),
+    clamp(-0.0041960863 * l_ - 0.7034186147 * m_ + 1.707614701 * s_),
+    THREE.LinearSRGBColorSpace,
+  )
+}
+
+export function colorToOklch(color: THREE.Color): [number, number, number] {
+  const lin = color.clone()
+  THREE.ColorManagement.workingToColorSpace(lin, THREE.LinearSRGBColorSpace)
+  const l = Math.cbrt(0.4122214708 * lin.r + 0.5363325363 * lin.g + 0.0514459929 * lin.b)
+  const m = Math.cbrt(0.2119034982 * lin.r + 0.6806995451 * lin.g + 0.1073969566 * lin.b)
+  const s = Math.cbrt(0.0883024619 * lin.r + 0.2817188376 * lin.g + 0.6299787005 * lin.b)
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s
+  const b = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  const h = THREE.MathUtils.radToDeg(Math.atan2(b, a))
+  return [L, Math.hypot(a, b), h < 0 ? h + 360 : h]
+}
+
+// Palette color at depth t for a (possibly jittered) base hue in degrees, in the working color space
+export function paletteColor(def: PaletteDef, baseHue: number, t: number, out: THREE.Color): THREE.Color {
+  const { stops } = def
+  let i = 0
+  while (i < stops.length - 2 && t > stops[i + 1].t) i++
+  const a = stops[i], b = stops[Math.min(i + 1, stops.length - 1)]
+  const u = b.t > a.t ? Math.min(1, Math.max(0, (t - a.t) / (b.t - a.t))) : 0
+  const c0 = a.color[0] + (b.color[0] - a.color[0]) * u
+  const c1 = a.color[1] + (b.color[1] - a.color[1]) * u
+  const c2 = a.color[2] + (b.color[2] - a.color[2]) * u
+  switch (def.space) {
+    case 'hsl':
+      return out.setHSL(((def.relativeHue ? baseHue / 360 : 0) + c0) % 1, c1, c2)
+    case 'oklch':
+      return oklchToLinear(c0, c1, (def.relativeHue ? baseHue : 0) + c2, out)
+    case 'srgb':
+    default:
+      return out.setRGB(c0, c1, c2, THREE.SRGBColorSpace)
+  }
+}
+
+export function paletteBaseHue(baseHue: number, seed: number, def: PaletteDef): number {
+  const base = baseHue
+  // introduce slight per-edge variance for more painterly look
+  const jitter = ((Math.sin(seed * 12.9898) * 43758.5453) % 1 + 1) % 1
+  const deg = (base + jitter * (def.jitter ?? 0)) % 360
+  return deg
+}
+
+// A palette of the beacon's own: 3-5 OKLCH stops around a seeded hue, with matching background and stars
+export function generatePalette(randomness: string, id = GENERATED_ID): PaletteDef {
+  const rng = createTraitRng(randomness, 'tesseract/palette/generated')
+  const range = (lo: number, hi: number) => lo + (hi - lo) * rng()
+  const hue = range(0, 360)
+  // analogous sweep, or a jump towards the complement
+  const spread = rng() < 0.7 ? range(30, 120) : range(150, 210)
+  const count = 3 + Math.floor(rng() * 3)
+  const chroma = range(0.08, 0.2)
+  const stops: PaletteStop[] = Array.from({ length: count }, (_, i) => {
+    const t = i / (count - 1)
+    return { t, color: [range(0.55, 0.85), chroma * range(0.7, 1.2), hue + spread * t] }
+  })
+  const hex = (l: number, c: number, h: number) => `#${oklchToLinear(l, c, h, new THREE.Color()).getHexString()}`
+  const def: PaletteDef = {
+    id,
+    name: 'generated (seeded)',
+    space: 'oklch',
+    stops,
+    background: hex(range(0.1, 0.18), range(0.01, 0.04), hue + 180),
+    starTint: hex(0.85, 0.06, hue + spread / 2),
+  }
+  generated.add(def)
+  return def
+}
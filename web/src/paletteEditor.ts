@@ -0,0 +1,158 @@
+import * as THREE from 'three'
+import { colorToOklch, paletteColor, paletteFromJSON, type PaletteDef, type PaletteSpace } from './palette'
+
+// Gradient editor: stops are picked as sRGB colors and stored in the chosen space.
+// Every edit produces a palette with the id 'custom'; exports are named after the palette.
+
+export type PaletteEditorHooks = {
+  onChange(def: PaletteDef): void
+  onImport(def: PaletteDef): void
+  onExport(def: PaletteDef): void
+  onError(message: string): void
+}
+
+export type PaletteEditor = {
+  open(def: PaletteDef, baseHue: number): void
+  close(): void
+  readonly isOpen: boolean
+}
+
+type EditStop = { t: number; hex: string }
+
+const EDIT_ID = 'custom'
+
+function hexOf(color: THREE.Color): string {
+  return `#${color.getHexString()}`
+}
+
+function srgbOf(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16)
+  return [(n >> 16 & 255) / 255, (n >> 8 & 255) / 255, (n & 255) / 255]
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+export function createPaletteEditor(root: HTMLElement, hooks: PaletteEditorHooks): PaletteEditor {
+  let name = ''
+  let space: PaletteSpace = 'oklch'
+  let stops: EditStop[] = []
+  let background: string | null = null
+  let starTint: string | null = null
+
+  function toDef(id = EDIT_ID): PaletteDef {
+    let lastHue: number | null = null
+    const data = {
+      id,
+      name: name || undefined,
+      space,
+      stops: [...stops].sort((a, b) => a.t - b.t).map(s => {
+        if (space === 'srgb') return { t: s.t, color: srgbOf(s.hex) }
+        const [l, c, h] = colorToOklch(new THREE.Color(s.hex))
+        // keep hues continuous so a stop past 360 does not sweep back the long way round
+        let hue = h
+        if (lastHue !== null) hue += Math.round((lastHue - hue) / 360) * 360
+        lastHue = hue
+        return { t: s.t, color: [l, c, hue] }
+      }),
+      background: background ?? undefined,
+      starTint: starTint ?? undefined,
+    }
+    return paletteFromJSON(data)
+  }
+
+  const emit = () => hooks.onChange(toDef())
+
+  function el<K extends keyof HTMLElementTagNameMap>(tag: K, props: Partial<HTMLElementTagNameMap[K]> = {}, ...children: Array<Node | string>): HTMLElementTagNameMap[K] {
+    const node = Object.assign(document.createElement(tag), props)
+    node.append(...children)
+    return node
+  }
+
+  // A color that can be switched off (background, star tint)
+  function optionalColor(label: string, value: string | null, fallback: string, set: (v: string | null) => void): HTMLElement {
+    const toggle = el('input', { type: 'checkbox', checked: value !== null })
+    const picker = el('input', { type: 'color', value: value ?? fallback, disabled: value === null })
+    toggle.addEventListener('change', () => { picker.disabled = !toggle.checked; set(toggle.checked ? picker.value : null); emit() })
+    picker.addEventListener('input', () => { set(picker.value); emit() })
+    return el('label', {}, `${label} `, toggle, picker)
+  }
+
+  function render() {
+    const nameInput = el('input', { type: 'text', value: name, placeholder: 'name', size: 12 })
+    nameInput.addEventListener('input', () => { name = nameInput.value })
+    const spaceSelect = el('select', {}, new Option('OKLCH', 'oklch'), new Option('sRGB', 'srgb'))
+    spaceSelect.value = space
+    spaceSelect.addEventListener('change', () => { space = spaceSelect.value as PaletteSpace; emit() })
+
+    const rows = stops.map((stop, i) => {
+      const picker = el('input', { type: 'color', value: stop.hex })
+      picker.addEventListener('input', () => { stop.hex = picker.value; emit() })
+      const pos = el('input', { type: 'range', min: '0', max: '1', step: '0.01', value: String(stop.t), title: 'position in w-depth' })
+      pos.addEventListener('input', () => { stop.t = parseFloat(pos.value); emit() })
+      const remove = el('button', { textContent: '×', title: 'remove stop', disabled: stops.length <= 1 })
+      remove.addEventListener('click', () => { stops.splice(i, 1); render(); emit() })
+      return el('span', { className: 'stop' }, picker, pos, remove)
+    })
+
+    const add = el('button', { textContent: '+ stop', title: 'Split the widest gap with a new stop' })
+    add.addEventListener('click', () => {
+      const sorted = [...stops].sort((a, b) => a.t - b.t)
+      let t = sorted.length ? (sorted[sorted.length - 1].t < 1 ? 1 : 0.5) : 0
+      let widest = -1
+      for (let i = 0; i + 1 < sorted.length; i++) {
+        if (sorted[i + 1].t - sorted[i].t > widest) { widest = sorted[i + 1].t - sorted[i].t; t = (sorted[i].t + sorted[i + 1].t) / 2 }
+      }
+      stops.push({ t, hex: hexOf(paletteColor(toDef(), 0, t, new THREE.Color())) })
+      render()
+      emit()
+    })
+
+    const exportBtn = el('button', { textContent: 'export', title: 'Download this palette as JSON' })
+    exportBtn.addEventListener('click', () => hooks.onExport(toDef(slug(name) || EDIT_ID)))
+    const file = el('input', { type: 'file', accept: 'application/json,.json' })
+    file.addEventListener('change', async () => {
+      const f = file.files?.[0]
+      if (!f) return
+      try {
+        const def = paletteFromJSON(JSON.parse(await f.text()))
+        hooks.onImport(def)
+      } catch (err) {
+        console.error(err)
+        hooks.onError(`Palette import failed: ${err instanceof Error ? err.message : err}`)
+      }
+    })
+    const close = el('button', { textContent: 'close' })
+    close.addEventListener('click', () => editor.close())
+
+    root.replaceChildren(
+      el('div', { className: 'row' }, nameInput, spaceSelect, add, exportBtn, el('label', { title: 'Load a palette JSON file' }, 'import ', file), close),
+      el('div', { className: 'stops' }, ...rows),
+      el('div', { className: 'row' },
+        optionalColor('background', background, '#0b0e14', v => { background = v }),
+        optionalColor('star tint', starTint, '#ffffff', v => { starTint = v })),
+    )
+  }
+
+  const editor: PaletteEditor = {
+    open(def, baseHue) {
+      // absolute gradients keep their stops; seeded (relative) ones are sampled as they look now
+      const ts = def.relativeHue || def.space === 'hsl' ? [0, 0.25, 0.5, 0.75, 1] : def.stops.map(s => s.t)
+      stops = ts.map(t => ({ t, hex: hexOf(paletteColor(def, baseHue, t, new THREE.Color())) }))
+      space = def.space === 'srgb' ? 'srgb' : 'oklch'
+      name = def.id === EDIT_ID ? (def.name ?? '') : (def.name ?? def.id)
+      background = def.background ?? null
+      starTint = def.starTint ?? null
+      root.hidden = false
+      render()
+    },
+    close() {
+      root.hidden = true
+    },
+    get isOpen() {
+      return !root.hidden
+    },
+  }
+  return editor
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { PERFORMANCE_FORMAT, createFlickStream, createPerformanceLog, performanceFromJSON } from './performance'
+
+const RANDOMNESS = '49891540810f410d114b25bdd47e6c14d316da3e513a82e91cc705a9bbb43fb3'
+
+const moves = (randomness: string, n: number) => {
+  const next = createFlickStream(randomness)
+  return Array.from({ length: n }, () => next())
+}
+
+describe('createFlickStream', () => {
+  it('gives the same n-th move for the same randomness', () => {
+    const a = moves(RANDOMNESS, 20)
+    expect(moves(RANDOMNESS, 20)).toEqual(a)
+    // a fresh stream drawn later in the session still starts over
+    moves(RANDOMNESS, 5)
+    expect(moves(RANDOMNESS, 3)).toEqual(a.slice(0, 3))
+  })
+
+  it('differs between rounds', () => {
+    expect(moves('00'.repeat(32), 5)).not.toEqual(moves(RANDOMNESS, 5))
+  })
+
+  it('bumps two to four planes within the burst range', () => {
+    for (const move of moves(RANDOMNESS, 50)) {
+      const bumps = Object.values(move.bumps)
+      expect(bumps.length).toBeGreaterThanOrEqual(2)
+      expect(bumps.length).toBeLessThanOrEqual(4)
+      for (const b of bumps) expect(Math.abs(b)).toBeLessThanOrEqual(2.4)
+      expect(Math.abs(move.yaw)).toBeLessThanOrEqual(Math.PI / 2)
+      expect(Math.abs(move.pitch)).toBeLessThanOrEqual(Math.PI / 8)
+    }
+  })
+})
+
+describe('performanceFromJSON', () => {
+  const log = { ...createPerformanceLog(1234, 3), events: [{ t: 2.5, type: 'flick' }, { t: 0.75, type: 'flick' }] }
+
+  it('reads a log back with its events in time order', () => {
+    const read = performanceFromJSON(JSON.parse(JSON.stringify(log)))
+    expect(read).toEqual({ format: PERFORMANCE_FORMAT, version: 1, round: 1234, algorithm: 3, events: [{ t: 0.75, type: 'flick' }, { t: 2.5, type: 'flick' }] })
+  })
+
+  it('drops fields it does not know', () => {
+    const read = performanceFromJSON({ ...log, extra: true, events: [{ t: 1, type: 'flick', note: 'x' }] })
+    expect(read).not.toHaveProperty('extra')
+    expect(read.events).toEqual([{ t: 1, type: 'flick' }])
+  })
+
+  it.each([
+    ['null', null, /not a performance log/],
+    ['another format', { ...log, format: 'tesseract-favorites' }, /not a performance log/],
+    ['a newer version', { ...log, version: 2 }, /unsupported performance log version 2/],
+    ['no round', { ...log, round: undefined }, /needs a round/],
+    ['round 0', { ...log, round: 0 }, /needs a round/],
+    ['a fractional round', { ...log, round: 1.5 }, /needs a round/],
+    ['no algorithm', { ...log, algorithm: '3' }, /algorithm version/],
+    ['no events', { ...log, events: {} }, /needs events/],
+    ['an unknown event', { ...log, events: [{ t: 1, type: 'spin' }] }, /event 0/],
+    ['an event without a time', { ...log, events: [{ type: 'flick' }] }, /event 0/],
+    ['a negative time', { ...log, events: [{ t: 1, type: 'flick' }, { t: -1, type: 'flick' }] }, /event 1/],
+    ['an infinite time', { ...log, events: [{ t: Infinity, type: 'flick' }] }, /event 0/],
+  ])('rejects %s', (_, data, message) => {
+    expect(() => performanceFromJSON(data)).toThrow(message)
+  })
+})
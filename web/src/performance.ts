@@ -0,0 +1,80 @@
+import type { RotationAngles4D } from './geometry4d'
+import { ROTATION_PLANES } from './rotation4d'
+import { createTraitRng } from './traits'
+
+// Flicks and the performance log. Every flick draws from a stream seeded by the round, so the
+// n-th flick of a piece is always the same move. The log records when flicks happened in
+// animation seconds since the seed loaded; since flicks take effect as a function of that
+// time, a replayed log gives the same frames at any frame rate. Camera orbiting, hand-set
+// plane rotation and audio modulation are live input and are not part of the log.
+
+export const PERFORMANCE_FORMAT = 'tesseract-performance'
+
+// how long the camera sweep of a flick lasts, in animation seconds
+export const FLICK_SECONDS = 0.9
+
+export type FlickMove = {
+  // added to the base angles of the planes it picked
+  bumps: Partial<RotationAngles4D>
+  // camera sweep, radians
+  yaw: number
+  pitch: number
+}
+
+export function createFlickStream(randomness: string): () => FlickMove {
+  const rng = createTraitRng(randomness, 'tesseract/flick')
+  return () => {
+    // accentuate 2-4 planes, chosen by a seeded shuffle
+    const order = [...ROTATION_PLANES]
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+    const picks = order.slice(0, 2 + Math.floor(rng() * 3))
+    const burst = 1.0 + rng() * 1.4
+    const bumps: Partial<RotationAngles4D> = {}
+    for (const p of picks) bumps[p] = (rng() - 0.5) * 2 * burst
+    return { bumps, yaw: (rng() - 0.5) * Math.PI, pitch: (rng() - 0.5) * (Math.PI / 4) }
+  }
+}
+
+// Camera position `u` (0..1) of the way through a flick's sweep, `radius` from the origin
+export function flickCameraPosition(move: FlickMove, radius: number, u: number): [number, number, number] {
+  const a = u * move.yaw
+  const b = u * move.pitch
+  return [radius * Math.cos(a), radius * Math.sin(b), radius * Math.sin(a)]
+}
+
+export type PerformanceEvent = {
+  // animation seconds since the seed loaded
+  t: number
+  type: 'flick'
+}
+
+export type PerformanceLog = {
+  format: typeof PERFORMANCE_FORMAT
+  version: 1
+  round: number
+  // trait algorithm the piece was performed on
+  algorithm: number
+  // sorted by t
+  events: PerformanceEvent[]
+}
+
+export function createPerformanceLog(round: number, algorithm: number): PerformanceLog {
+  return { format: PERFORMANCE_FORMAT, version: 1, round, algorithm, events: [] }
+}
+
+export function performanceFromJSON(data: unknown): PerformanceLog {
+  const json = data as PerformanceLog
+  if (!json || json.format !== PERFORMANCE_FORMAT) throw new Error('not a performance log')
+  if (json.version !== 1) throw new Error(`unsupported performance log version ${json.version}`)
+  if (!Number.isInteger(json.round) || json.round < 1) throw new Error('performance log needs a round')
+  if (!Number.isInteger(json.algorithm)) throw new Error('performance log needs an algorithm version')
+  if (!Array.isArray(json.events)) throw new Error('performance log needs events')
+  const events = json.events.map((e, i) => {
+    if (!e || e.type !== 'flick' || typeof e.t !== 'number' || !Number.isFinite(e.t) || e.t < 0) throw new Error(`event ${i} is not a flick with a time`)
+    return { t: e.t, type: e.type }
+  }).sort((a, b) => a.t - b.t)
+  return { format: PERFORMANCE_FORMAT, version: 1, round: json.round, algorithm: json.algorithm, events }
+}
@@ -0,0 +1,97 @@
+import { deflateSync, strToU8 } from 'fflate'
+import { describe, expect, it } from 'vitest'
+import { PERMALINK_SCHEMA, decodePermalink, encodePermalink, type PermalinkState } from './permalink'
+
+const state: PermalinkState = {
+  round: 1234567,
+  algorithm: 3,
+  shape: '24cell',
+  palette: 'harbour',
+  customPalette: { id: 'harbour', name: 'Harbour', space: 'oklch', stops: [{ t: 0, color: [0.5, 0.1, 200] }, { t: 1, color: [0.8, 0.12, 260] }], relativeHue: false, background: '#101820' },
+  style: 'ink',
+  projection: 'stereographic',
+  faces: 'auto',
+  hidden: 'dashed',
+  cell: 3,
+  projectionDistance: 2.75,
+  slice: -0.125,
+  sweep: true,
+  lineOpacity: 0.8,
+  strokeWidth: 2.5,
+  bloom: 1.2,
+  speed: 10,
+  isoclinic: false,
+  trail: true,
+  trailDecay: 3.8,
+  planes: { xy: 0.1, xz: -0.2, xw: 0.3, yz: 0, yw: 1.5708, zw: -3.1416 },
+  camera: { position: [0, 1.5, 6.25], target: [0, 0, 0], fov: 60 },
+}
+
+// a hash carrying `raw` as-is, for payloads encodePermalink would not write
+function hashOf(raw: unknown, schema = PERMALINK_SCHEMA): string {
+  const bytes = deflateSync(strToU8(JSON.stringify(raw)))
+  return `#v${schema}.${btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`
+}
+
+describe('permalinks', () => {
+  it('round-trips the whole view state', () => {
+    const hash = encodePermalink(state)
+    expect(hash).toMatch(new RegExp(`^#v${PERMALINK_SCHEMA}\\.[A-Za-z0-9_-]+$`))
+    const decoded = decodePermalink(hash)
+    expect(decoded).toEqual(state)
+    // with or without the leading #
+    expect(decodePermalink(hash.slice(1))).toEqual(decoded)
+  })
+
+  it('rounds numbers to four decimals', () => {
+    expect(decodePermalink(encodePermalink({ slice: 0.123456789, planes: { ...state.planes, xy: Math.PI } }))).toEqual({ slice: 0.1235, planes: { ...state.planes, xy: 3.1416 } })
+  })
+
+  it('returns null for a newer schema', () => {
+    expect(decodePermalink(hashOf(state, PERMALINK_SCHEMA + 1))).toBeNull()
+    expect(decodePermalink(hashOf(state, 0))).toBeNull()
+  })
+
+  it.each(['', '#', '#round=5', '#v1', '#v1.', '#v1.!!!', `#v1.${btoa('not deflated')}`, hashOf([1, 2]), hashOf('text'), hashOf(null)])('returns null for %j', (hash) => {
+    expect(decodePermalink(hash)).toBeNull()
+  })
+
+  const wrong: Array<[keyof PermalinkState, unknown]> = [
+    ['round', '1234567'],
+    ['algorithm', null],
+    ['cell', true],
+    ['projectionDistance', 'far'],
+    ['slice', [0]],
+    ['lineOpacity', {}],
+    ['strokeWidth', '2'],
+    ['bloom', false],
+    ['speed', 'fast'],
+    ['trailDecay', null],
+    ['shape', 24],
+    ['palette', ['ocean']],
+    ['style', false],
+    ['projection', 1],
+    ['faces', null],
+    ['hidden', {}],
+    ['sweep', 'true'],
+    ['isoclinic', 1],
+    ['trail', null],
+    ['planes', { ...state.planes, zw: 'half' }],
+    ['planes', { xy: 1 }],
+    ['camera', { ...state.camera, position: [0, 1] }],
+    ['camera', { ...state.camera, fov: '60' }],
+    ['customPalette', { id: 'broken', space: 'rgb', stops: [] }],
+  ]
+
+  it.each(wrong)('drops %s of the wrong type and keeps the rest', (field, value) => {
+    const decoded = decodePermalink(hashOf({ ...state, [field]: value }))
+    expect(decoded).not.toBeNull()
+    expect(decoded).not.toHaveProperty(field)
+    const { [field]: _dropped, ...rest } = state
+    expect(Object.keys(decoded!).sort()).toEqual(Object.keys(rest).sort())
+  })
+
+  it('ignores fields it does not know', () => {
+    expect(decodePermalink(hashOf({ round: 5, script: 'alert(1)' }))).toEqual({ round: 5 })
+  })
+})
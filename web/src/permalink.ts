@@ -0,0 +1,114 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate'
+import type { RotationAngles4D } from './geometry4d'
+import { paletteFromJSON, type PaletteDef } from './palette'
+import { ROTATION_PLANES } from './rotation4d'
+
+// Shareable view state in the URL hash: #v<schema>.<base64url of deflated JSON>.
+// Bump PERMALINK_SCHEMA when a field changes meaning and add a migration from the previous
+// schema, so links shared before the change still open the same view.
+
+export const PERMALINK_SCHEMA = 1
+
+type Vec3 = [number, number, number]
+
+export type PermalinkState = {
+  // pinned round; absent follows the latest
+  round: number
+  // trait algorithm version (?version=)
+  algorithm: number
+  // select values, 'auto' included
+  shape: string
+  palette: string
+  // an edited or imported palette travels with the link
+  customPalette: PaletteDef
+  style: string
+  projection: string
+  faces: string
+  // hidden-in-w edge select value, 'auto' included
+  hidden: string
+  // -1 for none
+  cell: number
+  projectionDistance: number
+  slice: number
+  sweep: boolean
+  lineOpacity: number
+  strokeWidth: number
+  bloom: number
+  speed: number
+  isoclinic: boolean
+  trail: boolean
+  trailDecay: number
+  // hand-set rotation per plane, radians
+  planes: RotationAngles4D
+  camera: { position: Vec3; target: Vec3; fov: number }
+}
+
+// Schema n -> n + 1, applied in order up to PERMALINK_SCHEMA
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0))
+}
+
+// Short decimals keep the link compact; nothing on screen needs more
+function roundNumbers(value: unknown): unknown {
+  if (typeof value === 'number') return Math.round(value * 1e4) / 1e4
+  if (Array.isArray(value)) return value.map(roundNumbers)
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, roundNumbers(v)]))
+  return value
+}
+
+export function encodePermalink(state: Partial<PermalinkState>): string {
+  return `#v${PERMALINK_SCHEMA}.${toBase64Url(deflateSync(strToU8(JSON.stringify(roundNumbers(state)))))}`
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+const isVec3 = (v: unknown): v is Vec3 => Array.isArray(v) && v.length === 3 && v.every(isNumber)
+
+// Fields of the wrong type are dropped one by one, so a damaged link still restores what it can
+function sanitize(raw: Record<string, unknown>): Partial<PermalinkState> {
+  const out: Record<string, unknown> = {}
+  const numbers = ['round', 'algorithm', 'cell', 'projectionDistance', 'slice', 'lineOpacity', 'strokeWidth', 'bloom', 'speed', 'trailDecay']
+  const strings = ['shape', 'palette', 'style', 'projection', 'faces', 'hidden']
+  const booleans = ['sweep', 'isoclinic', 'trail']
+  for (const k of numbers) if (isNumber(raw[k])) out[k] = raw[k]
+  for (const k of strings) if (typeof raw[k] === 'string') out[k] = raw[k]
+  for (const k of booleans) if (typeof raw[k] === 'boolean') out[k] = raw[k]
+  const cam = raw.camera as Record<string, unknown> | undefined
+  if (cam && isVec3(cam.position) && isVec3(cam.target) && isNumber(cam.fov)) out.camera = { position: cam.position, target: cam.target, fov: cam.fov }
+  const planes = raw.planes as Record<string, unknown> | undefined
+  if (planes && ROTATION_PLANES.every(p => isNumber(planes[p]))) out.planes = Object.fromEntries(ROTATION_PLANES.map(p => [p, planes[p]]))
+  if (raw.customPalette !== undefined) {
+    try {
+      out.customPalette = paletteFromJSON(raw.customPalette)
+    } catch {
+      // the view still opens, with the select's default palette
+    }
+  }
+  return out as Partial<PermalinkState>
+}
+
+// null when the hash is not a permalink, or is from a newer schema than this build knows
+export function decodePermalink(hash: string): Partial<PermalinkState> | null {
+  const m = /^#?v(\d+)\.([A-Za-z0-9_-]+)$/.exec(hash)
+  if (!m) return null
+  let schema = parseInt(m[1], 10)
+  if (schema < 1 || schema > PERMALINK_SCHEMA) return null
+  let state: Record<string, unknown>
+  try {
+    const parsed = JSON.parse(strFromU8(inflateSync(fromBase64Url(m[2]))))
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null
+    state = parsed
+  } catch {
+    return null
+  }
+  for (; schema < PERMALINK_SCHEMA; schema++) state = MIGRATIONS[schema](state)
+  return sanitize(state)
+}
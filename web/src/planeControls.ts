@@ -0,0 +1,162 @@
+import type { RotationAngles4D } from './geometry4d'
+import { ROTATION_PLANES, type RotationPlane } from './rotation4d'
+
+// Hand-set rotation in the six planes, added on top of the seeded pose.
+// Mouse: shift-drag turns through xw (horizontal) and yw (vertical), alt-drag through zw.
+// With 4D mode on, plain drags and one-finger touches do the same and a two-finger twist turns zw.
+// A drag released while moving keeps spinning and slows down.
+
+export type PlaneControls = {
+  readonly offsets: RotationAngles4D
+  // advance inertia by dt seconds
+  update(dt: number): void
+  set(offsets: Partial<RotationAngles4D>): void
+  reset(): void
+  dispose(): void
+}
+
+export type PlaneControlsOptions = {
+  // element receiving the drags (the canvas)
+  target: HTMLElement
+  // where the six plane sliders are built
+  sliders: HTMLElement
+  // the 3D orbit controls, paused while a 4D drag is in progress
+  orbit: { enabled: boolean }
+  // plain drags rotate in 4D; touch screens have no modifier keys
+  fourD(): boolean
+}
+
+const RADIANS_PER_PIXEL = 0.01
+// inertia fades to 1/e in this many seconds
+const FRICTION = 0.6
+// a drag that rests this long before release does not fling
+const REST_MS = 80
+
+const zero = (): RotationAngles4D => ({ xy: 0, xz: 0, xw: 0, yz: 0, yw: 0, zw: 0 })
+
+// Into (-pi, pi], so sliders show the shortest way round
+function wrap(angle: number): number {
+  return angle - Math.PI * 2 * Math.round(angle / (Math.PI * 2))
+}
+
+export function createPlaneControls(opts: PlaneControlsOptions): PlaneControls {
+  const offsets = zero()
+  const velocity = zero()
+  // smoothed angular velocity of the drag in progress, handed to `velocity` on release
+  const dragVelocity = zero()
+  const pointers = new Map<number, { x: number; y: number }>()
+  let twistOnly = false
+  let lastMove = 0
+
+  const inputs = {} as Record<RotationPlane, HTMLInputElement>
+  opts.sliders.replaceChildren(...ROTATION_PLANES.map(plane => {
+    const input = Object.assign(document.createElement('input'), { type: 'range', min: '-180', max: '180', step: '1', value: '0' })
+    input.addEventListener('input', () => {
+      offsets[plane] = (parseFloat(input.value) * Math.PI) / 180
+      velocity[plane] = 0
+    })
+    inputs[plane] = input
+    const label = document.createElement('label')
+    label.title = `Rotation in the ${plane} plane, on top of the animation`
+    label.append(`${plane} `, input)
+    return label
+  }))
+
+  function syncSliders() {
+    for (const plane of ROTATION_PLANES) inputs[plane].value = String(Math.round((wrap(offsets[plane]) * 180) / Math.PI))
+  }
+
+  function turn(plane: RotationPlane, delta: number, dt: number) {
+    offsets[plane] += delta
+    dragVelocity[plane] = dragVelocity[plane] * 0.5 + (delta / dt) * 0.5
+  }
+
+  function onDown(e: PointerEvent) {
+    if (!pointers.size && !opts.fourD() && !e.shiftKey && !e.altKey) return
+    e.stopImmediatePropagation()
+    e.preventDefault()
+    opts.target.setPointerCapture(e.pointerId)
+    if (!pointers.size) {
+      twistOnly = e.altKey
+      Object.assign(velocity, zero())
+      Object.assign(dragVelocity, zero())
+      opts.orbit.enabled = false
+    }
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    lastMove = e.timeStamp
+  }
+
+  function onMove(e: PointerEvent) {
+    const p = pointers.get(e.pointerId)
+    if (!p) return
+    e.stopImmediatePropagation()
+    const dt = Math.max((e.timeStamp - lastMove) / 1000, 1 / 240)
+    lastMove = e.timeStamp
+    if (pointers.size >= 2) {
+      // twist: how far the line through the first two touches turned
+      const angle = () => {
+        const [a, b] = pointers.values()
+        return Math.atan2(b.y - a.y, b.x - a.x)
+      }
+      const before = angle()
+      p.x = e.clientX
+      p.y = e.clientY
+      turn('zw', wrap(angle() - before), dt)
+    } else {
+      const dx = e.clientX - p.x, dy = e.clientY - p.y
+      p.x = e.clientX
+      p.y = e.clientY
+      if (twistOnly) turn('zw', dx * RADIANS_PER_PIXEL, dt)
+      else {
+        turn('xw', dx * RADIANS_PER_PIXEL, dt)
+        turn('yw', dy * RADIANS_PER_PIXEL, dt)
+      }
+    }
+    syncSliders()
+  }
+
+  function onUp(e: PointerEvent) {
+    if (!pointers.delete(e.pointerId)) return
+    e.stopImmediatePropagation()
+    if (pointers.size) return
+    opts.orbit.enabled = true
+    if (e.timeStamp - lastMove < REST_MS) Object.assign(velocity, dragVelocity)
+  }
+
+  // capture phase, so a 4D drag is claimed before OrbitControls sees it
+  opts.target.addEventListener('pointerdown', onDown, { capture: true })
+  opts.target.addEventListener('pointermove', onMove, { capture: true })
+  opts.target.addEventListener('pointerup', onUp, { capture: true })
+  opts.target.addEventListener('pointercancel', onUp, { capture: true })
+
+  return {
+    offsets,
+    update(dt) {
+      let moving = false
+      const decay = Math.exp(-dt / FRICTION)
+      for (const plane of ROTATION_PLANES) {
+        if (velocity[plane] === 0) continue
+        offsets[plane] += velocity[plane] * dt
+        velocity[plane] = Math.abs(velocity[plane]) < 1e-3 ? 0 : velocity[plane] * decay
+        moving = true
+      }
+      if (moving) syncSliders()
+    },
+    set(values) {
+      for (const plane of ROTATION_PLANES) if (values[plane] !== undefined) offsets[plane] = values[plane]
+      Object.assign(velocity, zero())
+      syncSliders()
+    },
+    reset() {
+      Object.assign(offsets, zero())
+      Object.assign(velocity, zero())
+      syncSliders()
+    },
+    dispose() {
+      opts.target.removeEventListener('pointerdown', onDown, { capture: true })
+      opts.target.removeEventListener('pointermove', onMove, { capture: true })
+      opts.target.removeEventListener('pointerup', onUp, { capture: true })
+      opts.target.removeEventListener('pointercancel', onUp, { capture: true })
+    },
+  }
+}
@@ -0,0 +1,97 @@
+import { zlibSync } from 'fflate'
+
+// Minimal PNG handling: insert and read tEXt chunks without re-encoding, and encode raw RGBA where no canvas exists
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10]
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+// tEXt is Latin-1; anything outside it is escaped so JSON stays readable and round-trips
+function latin1(text: string): Uint8Array {
+  const safe = text.replace(/[^\u0000-\u00ff]/g, ch => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`)
+  return Uint8Array.from(safe, ch => ch.charCodeAt(0))
+}
+
+function assertPng(png: Uint8Array) {
+  if (png.length < 8 || SIGNATURE.some((b, i) => png[i] !== b)) throw new Error('not a PNG')
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  out.set(Array.from(type, ch => ch.charCodeAt(0)), 4)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+function textChunk(keyword: string, text: string): Uint8Array {
+  if (!/^[\x20-\x7e]{1,79}$/.test(keyword) || keyword !== keyword.trim()) throw new Error(`invalid tEXt keyword: ${keyword}`)
+  const data = new Uint8Array([...latin1(keyword), 0, ...latin1(text)])
+  return chunk('tEXt', data)
+}
+
+// Insert tEXt chunks right after IHDR
+export function addPngText(png: Uint8Array, entries: Record<string, string>): Uint8Array {
+  assertPng(png)
+  const ihdrEnd = 8 + 12 + new DataView(png.buffer, png.byteOffset).getUint32(8)
+  const chunks = Object.entries(entries).map(([k, v]) => textChunk(k, v))
+  const out = new Uint8Array(png.length + chunks.reduce((n, c) => n + c.length, 0))
+  out.set(png.subarray(0, ihdrEnd))
+  let offset = ihdrEnd
+  for (const c of chunks) { out.set(c, offset); offset += c.length }
+  out.set(png.subarray(ihdrEnd), offset)
+  return out
+}
+
+export function readPngText(png: Uint8Array): Record<string, string> {
+  assertPng(png)
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  const out: Record<string, string> = {}
+  for (let offset = 8; offset + 12 <= png.length;) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8))
+    if (type === 'tEXt') {
+      const data = png.subarray(offset + 8, offset + 8 + length)
+      const nul = data.indexOf(0)
+      const decode = (b: Uint8Array) => Array.from(b, c => String.fromCharCode(c)).join('')
+      if (nul > 0) out[decode(data.subarray(0, nul))] = decode(data.subarray(nul + 1))
+    }
+    if (type === 'IEND') break
+    offset += 12 + length
+  }
+  return out
+}
+
+// 8-bit RGBA scanlines with no filtering; deflate does the rest
+export function encodePng(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): Uint8Array {
+  if (rgba.length !== width * height * 4) throw new Error(`expected ${width * height * 4} bytes of RGBA, got ${rgba.length}`)
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header.set([8, 6, 0, 0, 0], 8) // bit depth, color type RGBA, compression, filter, interlace
+  const stride = width * 4
+  const raw = new Uint8Array((stride + 1) * height)
+  for (let y = 0; y < height; y++) raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  const parts = [Uint8Array.from(SIGNATURE), chunk('IHDR', header), chunk('IDAT', zlibSync(raw, { level: 6 })), chunk('IEND', new Uint8Array(0))]
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) { out.set(p, offset); offset += p.length }
+  return out
+}
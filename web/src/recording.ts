@@ -0,0 +1,128 @@
+import { Muxer, ArrayBufferTarget } from 'webm-muxer'
+import { GIFEncoder, applyPalette, quantize } from 'gifenc'
+import { zipSync, type Zippable } from 'fflate'
+import { canvasToPng } from './still'
+
+export type RecordFormat = 'webm' | 'frames' | 'gif'
+
+// Receives rendered frames in order. `add` reads the canvas before its first await, so the
+// caller may render the next frame as soon as `add` returns its promise.
+export type FrameSink = {
+  add(canvas: HTMLCanvasElement, index: number): Promise<void>
+  finish(): Promise<Blob>
+}
+
+// VP9 (VP8 fallback) through WebCodecs, muxed with exact per-frame timestamps
+async function createWebmSink(width: number, height: number, fps: number): Promise<FrameSink> {
+  if (typeof VideoEncoder === 'undefined') throw new Error('WebCodecs is not available in this browser')
+  const candidates = [
+    { codec: 'vp09.00.10.08', muxCodec: 'V_VP9' },
+    { codec: 'vp8', muxCodec: 'V_VP8' },
+  ]
+  let chosen: { codec: string; muxCodec: string } | null = null
+  const config = (codec: string): VideoEncoderConfig => ({ codec, width, height, framerate: fps, bitrate: Math.round(width * height * fps * 0.2) })
+  for (const c of candidates) {
+    if ((await VideoEncoder.isConfigSupported(config(c.codec))).supported) { chosen = c; break }
+  }
+  if (!chosen) throw new Error('no supported WebM codec')
+
+  const target = new ArrayBufferTarget()
+  const muxer = new Muxer({ target, video: { codec: chosen.muxCodec, width, height, frameRate: fps } })
+  let failure: unknown = null
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (err) => { failure = err },
+  })
+  encoder.configure(config(chosen.codec))
+  const frameUs = 1e6 / fps
+
+  return {
+    async add(canvas, index) {
+      if (failure) throw failure
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameUs), duration: Math.round(frameUs) })
+      // a keyframe every two seconds keeps long clips seekable
+      encoder.encode(frame, { keyFrame: index % Math.max(1, Math.round(fps * 2)) === 0 })
+      frame.close()
+      while (encoder.encodeQueueSize > 4) await new Promise(resolve => setTimeout(resolve, 5))
+    },
+    async finish() {
+      await encoder.flush()
+      encoder.close()
+      if (failure) throw failure
+      muxer.finalize()
+      return new Blob([target.buffer], { type: 'video/webm' })
+    },
+  }
+}
+
+// Numbered PNGs in an uncompressed zip (the PNGs are already compressed)
+function createFrameSequenceSink(prefix: string): FrameSink {
+  const files: Zippable = {}
+  return {
+    async add(canvas, index) {
+      const png = await canvasToPng(canvas)
+      files[`${prefix}-${String(index).padStart(5, '0')}.png`] = [png, { level: 0 }]
+    },
+    async finish() {
+      return new Blob([zipSync(files)], { type: 'application/zip' })
+    },
+  }
+}
+
+// Per-frame 256-color palettes; GIF delays are in 1/100 s, so the frame rate is approximate
+function createGifSink(width: number, height: number, fps: number): FrameSink {
+  const gif = GIFEncoder()
+  const staging = document.createElement('canvas')
+  staging.width = width
+  staging.height = height
+  const ctx = staging.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('2D canvas unavailable')
+  return {
+    async add(canvas) {
+      ctx.drawImage(canvas, 0, 0, width, height)
+      const { data } = ctx.getImageData(0, 0, width, height)
+      const palette = quantize(data, 256)
+      gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: Math.round(1000 / fps), repeat: 0 })
+    },
+    async finish() {
+      gif.finish()
+      return new Blob([gif.bytes()], { type: 'image/gif' })
+    },
+  }
+}
+
+export async function createFrameSink(format: RecordFormat, width: number, height: number, fps: number, prefix: string): Promise<FrameSink> {
+  switch (format) {
+    case 'webm':
+      return createWebmSink(width, height, fps)
+    case 'gif':
+      return createGifSink(width, height, fps)
+    case 'frames':
+    default:
+      return createFrameSequenceSink(prefix)
+  }
+}
+
+export type RecordOptions = {
+  frames: number
+  fps: number
+  // frames rendered but not captured first, e.g. to let a trail build up
+  preroll?: number
+  // advance the scene by exactly dt seconds and render it to `canvas`
+  step: (dt: number) => void
+  canvas: HTMLCanvasElement
+  sink: FrameSink
+  onProgress?: (done: number, total: number) => void
+}
+
+// Fixed-timestep capture: every frame advances by exactly 1/fps regardless of how long it took to render
+export async function recordFrames(opts: RecordOptions): Promise<Blob> {
+  const dt = 1 / opts.fps
+  for (let i = 0; i < (opts.preroll ?? 0); i++) opts.step(dt)
+  for (let i = 0; i < opts.frames; i++) {
+    opts.step(dt)
+    await opts.sink.add(opts.canvas, i)
+    opts.onProgress?.(i + 1, opts.frames)
+  }
+  return opts.sink.finish()
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { anglesAt, identity4, isoclinicMatrix, multiply4, rotationAt, type Mat4x4, type RotationMotion } from './rotation4d'
+
+const motion: RotationMotion = {
+  base: { xy: 0.3, xz: -1.1, xw: 0.7, yz: 2.4, yw: -0.2, zw: 1.6 },
+  rates: { xy: 0.35, xz: -0.27, xw: 0.31, yz: 0.29, yw: -0.33, zw: 0.37 },
+  isoclinicRate: 0.45,
+  isoclinicHand: 'right',
+}
+
+function transpose(m: Mat4x4): Mat4x4 {
+  const out = new Float64Array(16)
+  for (let i = 0; i < 4; i++) for (let j = 0; j < 4; j++) out[j * 4 + i] = m[i * 4 + j]
+  return out
+}
+
+function determinant(m: Mat4x4): number {
+  // Laplace expansion along the first row
+  const minor = (col: number) => {
+    const rows = [1, 2, 3].map(i => [0, 1, 2, 3].filter(j => j !== col).map(j => m[i * 4 + j]))
+    const [[a, b, c], [d, e, f], [g, h, k]] = rows
+    return a * (e * k - f * h) - b * (d * k - f * g) + c * (d * h - e * g)
+  }
+  return m[0] * minor(0) - m[1] * minor(1) + m[2] * minor(2) - m[3] * minor(3)
+}
+
+function expectClose(a: Mat4x4, b: Mat4x4, digits = 12) {
+  for (let i = 0; i < 16; i++) expect(a[i]).toBeCloseTo(b[i], digits)
+}
+
+// animation time summed frame by frame, as the render loop does
+function integrate(seconds: number, dt: number): number {
+  let t = 0
+  for (let i = 0; i < Math.round(seconds / dt); i++) t += dt
+  return t
+}
+
+describe('rotationAt', () => {
+  it('is a rotation at t = 12.5 s', () => {
+    const m = rotationAt(motion, 12.5)
+    expectClose(multiply4(m, transpose(m)), identity4())
+    expect(determinant(m)).toBeCloseTo(1, 12)
+  })
+
+  it('gives the same frame at t = 12.5 s on every call', () => {
+    const first = rotationAt(motion, 12.5)
+    for (let i = 0; i < 3; i++) expect(rotationAt(motion, 12.5)).toEqual(first)
+    // writing into a reused matrix changes nothing
+    const out = rotationAt(motion, 3)
+    expect(rotationAt(motion, 12.5, out)).toEqual(first)
+  })
+
+  it('gives the same frame at t = 12.5 s whatever the frame step', () => {
+    const exact = rotationAt(motion, 12.5)
+    // steps that are exact in binary sum to exactly 12.5
+    for (const dt of [0.5, 0.125, 1 / 64]) expect(rotationAt(motion, integrate(12.5, dt))).toEqual(exact)
+    // 30, 60 and 144 fps drift by rounding only
+    for (const fps of [30, 60, 144]) expectClose(rotationAt(motion, integrate(12.5, 1 / fps)), exact, 9)
+  })
+
+  it('matches anglesAt for plane rotations alone', () => {
+    const planar: RotationMotion = { base: motion.base, rates: motion.rates }
+    const angles = anglesAt(motion.base, motion.rates, 12.5)
+    expect(rotationAt(planar, 12.5)).toEqual(rotationAt({ base: angles, rates: { xy: 0, xz: 0, xw: 0, yz: 0, yw: 0, zw: 0 } }, 0))
+  })
+})
+
+describe('isoclinicMatrix', () => {
+  it('composes step by step into the closed form', () => {
+    const rate = motion.isoclinicRate!
+    for (const dt of [1 / 30, 1 / 60]) {
+      const stepped = identity4()
+      const step = isoclinicMatrix(rate * dt, 'right')
+      for (let i = 0; i < Math.round(12.5 / dt); i++) multiply4(step, stepped, stepped)
+      expectClose(stepped, isoclinicMatrix(rate * 12.5, 'right'), 9)
+    }
+  })
+})
@@ -0,0 +1,117 @@
+import type { RotationAngles4D, Vec4 } from './geometry4d'
+
+// Row-major 4x4 matrix acting on column vectors (x, y, z, w)
+export type Mat4x4 = Float64Array
+
+export type RotationPlane = keyof RotationAngles4D
+
+// Same order apply4dRotation uses, so the matrix and per-plane paths agree
+export const ROTATION_PLANES: readonly RotationPlane[] = ['xy', 'xz', 'xw', 'yz', 'yw', 'zw']
+
+const AXIS: Record<RotationPlane, [number, number]> = {
+  xy: [0, 1], xz: [0, 2], xw: [0, 3], yz: [1, 2], yw: [1, 3], zw: [2, 3],
+}
+
+// Seeded motion: a starting pose, per-plane angular velocities (rad/s) and an optional isoclinic spin
+export type RotationMotion = {
+  base: RotationAngles4D
+  rates: RotationAngles4D
+  // rad/s of an equal-angle double rotation in the xy and zw planes; 0 disables it
+  isoclinicRate?: number
+  // left: both planes turn the same way, right: zw turns against xy
+  isoclinicHand?: 'left' | 'right'
+}
+
+export function identity4(out: Mat4x4 = new Float64Array(16)): Mat4x4 {
+  out.fill(0)
+  out[0] = out[5] = out[10] = out[15] = 1
+  return out
+}
+
+// out = a * b; `out` may alias either input
+export function multiply4(a: Mat4x4, b: Mat4x4, out: Mat4x4 = new Float64Array(16)): Mat4x4 {
+  const r = new Float64Array(16)
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 4; j++) {
+      r[i * 4 + j] = a[i * 4] * b[j] + a[i * 4 + 1] * b[4 + j] + a[i * 4 + 2] * b[8 + j] + a[i * 4 + 3] * b[12 + j]
+    }
+  }
+  out.set(r)
+  return out
+}
+
+export function planeRotation(plane: RotationPlane, angle: number, out: Mat4x4 = new Float64Array(16)): Mat4x4 {
+  const [i, j] = AXIS[plane]
+  const c = Math.cos(angle), s = Math.sin(angle)
+  identity4(out)
+  out[i * 4 + i] = c
+  out[i * 4 + j] = -s
+  out[j * 4 + i] = s
+  out[j * 4 + j] = c
+  return out
+}
+
+// Compose the six plane rotations: M = R_zw · R_yw · R_yz · R_xw · R_xz · R_xy (xy is applied first)
+export function rotationMatrix(angles: RotationAngles4D, out: Mat4x4 = new Float64Array(16)): Mat4x4 {
+  identity4(out)
+  const r = new Float64Array(16)
+  for (const plane of ROTATION_PLANES) {
+    if (angles[plane] === 0) continue
+    multiply4(planeRotation(plane, angles[plane], r), out, out)
+  }
+  return out
+}
+
+// Double rotation by the same angle in two orthogonal planes (xy and zw)
+export function isoclinicMatrix(angle: number, hand: 'left' | 'right' = 'left', out: Mat4x4 = new Float64Array(16)): Mat4x4 {
+  planeRotation('xy', angle, out)
+  return multiply4(planeRotation('zw', hand === 'left' ? angle : -angle), out, out)
+}
+
+// Angles after `t` seconds of constant angular velocity
+export function anglesAt(base: RotationAngles4D, rates: RotationAngles4D, t: number): RotationAngles4D {
+  return {
+    xy: base.xy + rates.xy * t,
+    xz: base.xz + rates.xz * t,
+    xw: base.xw + rates.xw * t,
+    yz: base.yz + rates.yz * t,
+    yw: base.yw + rates.yw * t,
+    zw: base.zw + rates.zw * t,
+  }
+}
+
+// Pose at time t in closed form, so the same t always gives the same frame regardless of frame rate
+export function rotationAt(motion: RotationMotion, t: number, out: Mat4x4 = new Float64Array(16)): Mat4x4 {
+  rotationMatrix(anglesAt(motion.base, motion.rates, t), out)
+  if (motion.isoclinicRate) multiply4(isoclinicMatrix(motion.isoclinicRate * t, motion.isoclinicHand), out, out)
+  return out
+}
+
+export function applyMatrix4D(m: Mat4x4, v: Vec4): Vec4 {
+  return {
+    x: m[0] * v.x + m[1] * v.y + m[2] * v.z + m[3] * v.w,
+    y: m[4] * v.x + m[5] * v.y + m[6] * v.z + m[7] * v.w,
+    z: m[8] * v.x + m[9] * v.y + m[10] * v.z + m[11] * v.w,
+    w: m[12] * v.x + m[13] * v.y + m[14] * v.z + m[15] * v.w,
+  }
+}
+
+export function transformVertices4D(m: Mat4x4, vertices: Vec4[]): Vec4[] {
+  const out = new Array<Vec4>(vertices.length)
+  for (let i = 0; i < vertices.length; i++) out[i] = applyMatrix4D(m, vertices[i])
+  return out
+}
+
+// Angular frequency (rad/s) snapped to a whole, nonzero number of cycles per `period` seconds, keeping its sign
+export function loopFrequency(freq: number, period: number): number {
+  const step = (Math.PI * 2) / period
+  const cycles = Math.max(1, Math.round(Math.abs(freq) / step))
+  return Math.sign(freq || 1) * cycles * step
+}
+
+// Rotation rates that bring every plane back to its starting angle after `period` seconds
+export function loopRates(rates: RotationAngles4D, period: number): RotationAngles4D {
+  const out = { ...rates }
+  for (const plane of ROTATION_PLANES) out[plane] = loopFrequency(rates[plane], period)
+  return out
+}
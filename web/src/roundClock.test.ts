@@ -0,0 +1,50 @@
+import type { ChainInfo } from 'drand-client'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRoundClock } from './roundClock'
+
+const info = { period: 3, genesis_time: 1_700_000_000 } as ChainInfo
+
+describe('createRoundClock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(info.genesis_time * 1000 + 10_000)
+  })
+  afterEach(() => vi.useRealTimers())
+
+  it('moves on to the next round when a load is skipped', async () => {
+    const rounds: number[] = []
+    const onRetry = vi.fn()
+    const clock = createRoundClock({
+      info: async () => info,
+      load: async (round) => {
+        rounds.push(round)
+        return 'skipped'
+      },
+      onRetry,
+    })
+    clock.start()
+    await vi.advanceTimersByTimeAsync(10_000)
+    clock.stop()
+    expect(rounds).toEqual([5, 6, 7])
+    expect(onRetry).not.toHaveBeenCalled()
+  })
+
+  it('retries the same round with backoff when a load fails', async () => {
+    const rounds: number[] = []
+    const onRetry = vi.fn()
+    const clock = createRoundClock({
+      info: async () => info,
+      load: async (round) => {
+        rounds.push(round)
+        return false
+      },
+      onRetry,
+    })
+    clock.start()
+    await vi.advanceTimersByTimeAsync(5_000)
+    clock.stop()
+    expect(rounds.length).toBeGreaterThan(1)
+    expect(new Set(rounds)).toEqual(new Set([5]))
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number))
+  })
+})
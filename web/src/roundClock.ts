@@ -0,0 +1,112 @@
+import { roundAt, roundTime, type ChainInfo } from 'drand-client'
+
+// Fires when drand publishes a round, from the chain's genesis time and period rather than a
+// free-running interval, so the artwork changes with the beacon and every screen on the same chain
+// changes together. When the beacon is late or the fetch fails it retries with exponential
+// backoff, then falls back into step with the clock.
+
+// beacons appear a moment after their round time; asking at the exact instant mostly gets the previous one
+const PUBLISH_DELAY_MS = 500
+const RETRY_BASE_MS = 1_000
+const RETRY_MAX_MS = 60_000
+
+export type RoundClockOptions = {
+  info(): Promise<ChainInfo>
+  // show round `round` or later; false when it is not there yet or the fetch failed, 'skipped' when
+  // the caller is not taking new rounds just now (the clock moves on to the next one)
+  load(round: number): Promise<boolean | 'skipped'>
+  // switch on every n-th round only (rounds divisible by n), for intervals longer than the period
+  every?(info: ChainInfo): number
+  // `failures` in a row so far; the next try is `delayMs` away
+  onRetry?(failures: number, delayMs: number): void
+}
+
+export type RoundClock = {
+  start(): void
+  stop(): void
+  readonly running: boolean
+}
+
+// Rounds per switch for a wanted interval: whole rounds, at least one
+export function roundsPerInterval(info: ChainInfo, seconds: number): number {
+  return Math.max(1, Math.round(seconds / info.period))
+}
+
+// Backoff before try `failures` + 1, with ±20% jitter so a room of screens does not retry in lockstep
+export function retryDelay(failures: number, random = Math.random): number {
+  const base = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, failures - 1))
+  return Math.round(base * (0.8 + 0.4 * random()))
+}
+
+export function createRoundClock(opts: RoundClockOptions): RoundClock {
+  let timer: ReturnType<typeof setTimeout> | null = null
+  // bumped by stop(), so a load still in flight does not schedule anything afterwards
+  let generation = 0
+  let running = false
+  let failures = 0
+
+  const wait = (ms: number, fn: () => void) => {
+    timer = setTimeout(fn, Math.max(0, ms))
+  }
+
+  // the next switching round after now, at its publish time
+  async function scheduleNext(gen: number) {
+    let info: ChainInfo
+    try {
+      info = await opts.info()
+    } catch (err) {
+      console.error(err)
+      if (gen === generation) retry(gen, null)
+      return
+    }
+    if (gen !== generation) return
+    const every = Math.max(1, Math.floor(opts.every?.(info) ?? 1))
+    const round = (Math.floor(roundAt(Date.now(), info) / every) + 1) * every
+    wait(roundTime(info, round) + PUBLISH_DELAY_MS - Date.now(), () => fire(gen, round))
+  }
+
+  async function fire(gen: number, round: number) {
+    timer = null
+    let result: boolean | 'skipped' = false
+    try {
+      result = await opts.load(round)
+    } catch (err) {
+      console.error(err)
+    }
+    if (gen !== generation) return
+    if (result === 'skipped') {
+      scheduleNext(gen)
+    } else if (result) {
+      failures = 0
+      scheduleNext(gen)
+    } else {
+      retry(gen, round)
+    }
+  }
+
+  // try the same round again (or, with no round, find the next one) after a backoff
+  function retry(gen: number, round: number | null) {
+    failures++
+    const delay = retryDelay(failures)
+    opts.onRetry?.(failures, delay)
+    wait(delay, () => (round === null ? scheduleNext(gen) : fire(gen, round)))
+  }
+
+  return {
+    start() {
+      if (running) return
+      running = true
+      failures = 0
+      scheduleNext(generation)
+    },
+    stop() {
+      running = false
+      generation++
+      if (timer) clearTimeout(timer)
+      timer = null
+    },
+    get running() {
+      return running
+    },
+  }
+}
@@ -0,0 +1,343 @@
+import * as THREE from 'three'
+import type { Polytope4D } from './geometry4d'
+import type { ArtParams } from './traits'
+import { STYLES, applyStyleColors } from './styles'
+import { getPalette } from './palette'
+import { isHairline, strokeAlpha, strokeRadius, strokeUnit, type Stroke } from './strokes'
+import { MAX_STARS, frameGeometry, mulberry32, placeCamera, pulses, viewFromParams, writeEdges, writeGlow, writeStars } from './artwork'
+
+// CPU renderer for headless use (no WebGL). It follows the browser pipeline pass by pass:
+// stars, lines and glow points, then the afterimage trail, bloom, film grain and RGB shift.
+// Close to the WebGL output, not pixel-identical.
+
+export type SoftwareImage = { width: number; height: number; data: Uint8ClampedArray }
+
+export type SoftwareRenderOptions = {
+  width: number
+  height: number
+  // what to render, with any overrides already applied
+  params: ArtParams
+  poly: Polytope4D
+  // animation seconds since the seed; 0 is the seeded start pose
+  time?: number
+  lineOpacity?: number
+}
+
+// Same sizes as the materials in app.ts (world units, attenuated by distance)
+const STAR_SIZE = 0.012
+const GLOW_SIZE = 0.05
+const TUBE_RADIUS = 0.035
+// trail history is simulated at this rate
+const TRAIL_FPS = 30
+const BLOOM_KERNELS = [3, 5, 7, 9, 11]
+const BLOOM_FACTORS = [1.0, 0.8, 0.6, 0.4, 0.2]
+
+type Buffer = { w: number; h: number; px: Float32Array }
+
+function createBuffer(w: number, h: number): Buffer {
+  return { w, h, px: new Float32Array(w * h * 3) }
+}
+
+function blend(buf: Buffer, i: number, r: number, g: number, b: number, a: number, additive: boolean) {
+  const o = i * 3
+  if (additive) {
+    buf.px[o] += r * a; buf.px[o + 1] += g * a; buf.px[o + 2] += b * a
+  } else {
+    buf.px[o] += (r - buf.px[o]) * a; buf.px[o + 1] += (g - buf.px[o + 1]) * a; buf.px[o + 2] += (b - buf.px[o + 2]) * a
+  }
+}
+
+// Liang-Barsky clip to the buffer (with a margin for thick lines); null when fully outside
+function clipSegment(buf: Buffer, x0: number, y0: number, x1: number, y1: number, pad: number): [number, number] | null {
+  let t0 = 0, t1 = 1
+  const dx = x1 - x0, dy = y1 - y0
+  const edges: Array<[number, number]> = [[-dx, x0 + pad], [dx, buf.w + pad - x0], [-dy, y0 + pad], [dy, buf.h + pad - y0]]
+  for (const [p, q] of edges) {
+    if (p === 0) { if (q < 0) return null; continue }
+    const r = q / p
+    if (p < 0) { if (r > t1) return null; if (r > t0) t0 = r }
+    else { if (r < t0) return null; if (r < t1) t1 = r }
+  }
+  return [t0, t1]
+}
+
+// Antialiased line of `width` px with colors interpolated between the endpoints
+function drawLine(buf: Buffer, p0: THREE.Vector3, p1: THREE.Vector3, c0: number[], c1: number[], width: number, alpha: number, additive: boolean) {
+  const clip = clipSegment(buf, p0.x, p0.y, p1.x, p1.y, width + 1)
+  if (!clip) return
+  const steep = Math.abs(p1.y - p0.y) > Math.abs(p1.x - p0.x)
+  // work along the major axis: a = major, b = minor
+  let a0 = steep ? p0.y : p0.x, b0 = steep ? p0.x : p0.y, a1 = steep ? p1.y : p1.x, b1 = steep ? p1.x : p1.y
+  let u0 = clip[0], u1 = clip[1], ca = c0, cb = c1
+  if (a0 > a1) { [a0, a1] = [a1, a0]; [b0, b1] = [b1, b0]; [u0, u1] = [1 - u1, 1 - u0]; [ca, cb] = [cb, ca] }
+  const len = a1 - a0
+  if (len < 1e-6) return
+  const grad = (b1 - b0) / len
+  const half = (width / 2) * Math.sqrt(1 + grad * grad)
+  const [aMax, bMax] = steep ? [buf.h, buf.w] : [buf.w, buf.h]
+  const start = Math.max(0, Math.floor(a0 + len * u0)), end = Math.min(aMax - 1, Math.ceil(a0 + len * u1))
+  for (let a = start; a <= end; a++) {
+    const u = Math.min(1, Math.max(0, (a + 0.5 - a0) / len))
+    const bc = b0 + grad * (a + 0.5 - a0)
+    const r = ca[0] + (cb[0] - ca[0]) * u, g = ca[1] + (cb[1] - ca[1]) * u, bl = ca[2] + (cb[2] - ca[2]) * u
+    for (let b = Math.max(0, Math.floor(bc - half - 0.5)); b <= Math.min(bMax - 1, Math.ceil(bc + half + 0.5)); b++) {
+      const cov = Math.min(1, Math.max(0, half + 0.5 - Math.abs(b + 0.5 - bc)))
+      if (cov <= 0) continue
+      blend(buf, steep ? a * buf.w + b : b * buf.w + a, r, g, bl, alpha * cov, additive)
+    }
+  }
+}
+
+// Seeded stroke: a capsule around the segment whose radius and opacity follow the depths t0..t1
+// of its ends (as the fat-edge shader in strokes.ts does), so overlapping ends make round joins
+function drawStroke(buf: Buffer, p0: THREE.Vector3, p1: THREE.Vector3, c0: number[], c1: number[], t0: number, t1: number, stroke: Stroke, alpha: number, additive: boolean) {
+  const r0 = strokeRadius(stroke, t0, buf.h), r1 = strokeRadius(stroke, t1, buf.h)
+  const pad = Math.max(r0, r1) + 1
+  const dx = p1.x - p0.x, dy = p1.y - p0.y
+  const len2 = dx * dx + dy * dy, len = Math.sqrt(len2)
+  for (let y = Math.max(0, Math.floor(Math.min(p0.y, p1.y) - pad)); y <= Math.min(buf.h - 1, Math.ceil(Math.max(p0.y, p1.y) + pad)); y++) {
+    for (let x = Math.max(0, Math.floor(Math.min(p0.x, p1.x) - pad)); x <= Math.min(buf.w - 1, Math.ceil(Math.max(p0.x, p1.x) + pad)); x++) {
+      const px = x + 0.5 - p0.x, py = y + 0.5 - p0.y
+      const h = len2 > 0 ? Math.min(1, Math.max(0, (px * dx + py * dy) / len2)) : 0
+      const cov = Math.min(1, r0 + (r1 - r0) * h - Math.hypot(px - dx * h, py - dy * h) + 0.5)
+      if (cov <= 0) continue
+      const a = strokeAlpha(stroke, t0 + (t1 - t0) * h, h * len, buf.h)
+      if (a <= 0) continue
+      blend(buf, y * buf.w + x, c0[0] + (c1[0] - c0[0]) * h, c0[1] + (c1[1] - c0[1]) * h, c0[2] + (c1[2] - c0[2]) * h, alpha * a * cov, additive)
+    }
+  }
+}
+
+// Square point sprite (PointsMaterial without a map), area-weighted at the edges
+function drawPoint(buf: Buffer, cx: number, cy: number, size: number, r: number, g: number, b: number, alpha: number, additive: boolean) {
+  const s = Math.max(1, size) / 2
+  const x0 = cx - s, x1 = cx + s, y0 = cy - s, y1 = cy + s
+  for (let y = Math.max(0, Math.floor(y0)); y < Math.min(buf.h, Math.ceil(y1)); y++) {
+    const cy2 = Math.min(y + 1, y1) - Math.max(y, y0)
+    for (let x = Math.max(0, Math.floor(x0)); x < Math.min(buf.w, Math.ceil(x1)); x++) {
+      const cov = cy2 * (Math.min(x + 1, x1) - Math.max(x, x0))
+      if (cov > 0) blend(buf, y * buf.w + x, r, g, b, alpha * cov, additive)
+    }
+  }
+}
+
+// World point -> pixel position plus view depth (negative depth means behind the camera)
+function toScreen(camera: THREE.PerspectiveCamera, buf: Buffer, x: number, y: number, z: number, out: THREE.Vector3): number {
+  out.set(x, y, z).applyMatrix4(camera.matrixWorldInverse)
+  const depth = -out.z
+  out.applyMatrix4(camera.projectionMatrix)
+  out.set((out.x + 1) * 0.5 * buf.w, (1 - out.y) * 0.5 * buf.h, 0)
+  return depth
+}
+
+// Separable gaussian with sigma = radius, as UnrealBloomPass does per mip
+function blur(src: Buffer, radius: number): Buffer {
+  const weights: number[] = []
+  let sum = 0
+  for (let i = 0; i < radius; i++) {
+    const w = Math.exp(-0.5 * (i * i) / (radius * radius))
+    weights.push(w)
+    sum += i === 0 ? w : 2 * w
+  }
+  const pass = (from: Buffer, horizontal: boolean): Buffer => {
+    const to = createBuffer(from.w, from.h)
+    for (let y = 0; y < from.h; y++) {
+      for (let x = 0; x < from.w; x++) {
+        let r = 0, g = 0, b = 0
+        for (let i = -radius + 1; i < radius; i++) {
+          const sx = horizontal ? Math.min(from.w - 1, Math.max(0, x + i)) : x
+          const sy = horizontal ? y : Math.min(from.h - 1, Math.max(0, y + i))
+          const o = (sy * from.w + sx) * 3, w = weights[Math.abs(i)]
+          r += from.px[o] * w; g += from.px[o + 1] * w; b += from.px[o + 2] * w
+        }
+        const o = (y * from.w + x) * 3
+        to.px[o] = r / sum; to.px[o + 1] = g / sum; to.px[o + 2] = b / sum
+      }
+    }
+    return to
+  }
+  return pass(pass(src, true), false)
+}
+
+function downsample(src: Buffer): Buffer {
+  const out = createBuffer(Math.max(1, src.w >> 1), Math.max(1, src.h >> 1))
+  for (let y = 0; y < out.h; y++) {
+    for (let x = 0; x < out.w; x++) {
+      for (let c = 0; c < 3; c++) {
+        let v = 0, n = 0
+        for (let dy = 0; dy < 2; dy++) for (let dx = 0; dx < 2; dx++) {
+          const sx = Math.min(src.w - 1, x * 2 + dx), sy = Math.min(src.h - 1, y * 2 + dy)
+          v += src.px[(sy * src.w + sx) * 3 + c]; n++
+        }
+        out.px[(y * out.w + x) * 3 + c] = v / n
+      }
+    }
+  }
+  return out
+}
+
+function sampleBilinear(src: Buffer, u: number, v: number, c: number): number {
+  const x = Math.min(src.w - 1, Math.max(0, u * src.w - 0.5)), y = Math.min(src.h - 1, Math.max(0, v * src.h - 0.5))
+  const x0 = Math.floor(x), y0 = Math.floor(y), x1 = Math.min(src.w - 1, x0 + 1), y1 = Math.min(src.h - 1, y0 + 1)
+  const fx = x - x0, fy = y - y0
+  const at = (xx: number, yy: number) => src.px[(yy * src.w + xx) * 3 + c]
+  return (at(x0, y0) * (1 - fx) + at(x1, y0) * fx) * (1 - fy) + (at(x0, y1) * (1 - fx) + at(x1, y1) * fx) * fy
+}
+
+// UnrealBloomPass: luminance high-pass, five blurred mips, weighted by radius and added on top
+function applyBloom(buf: Buffer, strength: number, radius: number, threshold: number) {
+  const bright = createBuffer(buf.w, buf.h)
+  for (let i = 0; i < buf.w * buf.h; i++) {
+    const o = i * 3
+    const l = 0.299 * buf.px[o] + 0.587 * buf.px[o + 1] + 0.114 * buf.px[o + 2]
+    const t = Math.min(1, Math.max(0, (l - threshold) / 0.01))
+    const a = t * t * (3 - 2 * t)
+    bright.px[o] = buf.px[o] * a; bright.px[o + 1] = buf.px[o + 1] * a; bright.px[o + 2] = buf.px[o + 2] * a
+  }
+  const mips: Buffer[] = []
+  let level = bright
+  for (const k of BLOOM_KERNELS) {
+    level = blur(downsample(level), k)
+    mips.push(level)
+  }
+  for (let y = 0; y < buf.h; y++) {
+    for (let x = 0; x < buf.w; x++) {
+      const u = (x + 0.5) / buf.w, v = (y + 0.5) / buf.h, o = (y * buf.w + x) * 3
+      for (let c = 0; c < 3; c++) {
+        let sum = 0
+        mips.forEach((mip, i) => {
+          const f = BLOOM_FACTORS[i]
+          sum += (f + (1.2 - f - f) * radius) * sampleBilinear(mip, u, v, c)
+        })
+        buf.px[o + c] += strength * sum
+      }
+    }
+  }
+}
+
+function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055
+}
+
+export function renderSoftware(opts: SoftwareRenderOptions): SoftwareImage {
+  const { width, height, params, poly } = opts
+  const time = opts.time ?? 0
+  const spec = STYLES[params.style]
+  const camera = new THREE.PerspectiveCamera(params.camera.fov, width / height, 0.01, 100)
+  placeCamera(camera, params.camera)
+  camera.updateMatrixWorld()
+  const view = viewFromParams(params, poly)
+  const lineOpacity = opts.lineOpacity ?? 0.65
+  const additive = spec.blending === THREE.AdditiveBlending
+  // WebGL lines are one device pixel; keep them proportionally as thin as on a ~1080p screen
+  const lineWidth = strokeUnit(height)
+
+  const palette = getPalette(params.palette)
+  const background = new THREE.Color(spec.paper ? spec.background : palette.background ?? spec.background)
+  const paperNoise = mulberry32(0x9e3779b9)
+  const paper = new Float32Array(spec.paper ? width * height : 0).map(() => (paperNoise() - 0.5) * 14 / 255)
+
+  const starPositions = new Float32Array(MAX_STARS * 3)
+  const starColors = new Float32Array(MAX_STARS * 3)
+  const starCount = spec.stars ? writeStars(params.stars, params.baseHue, starPositions, starColors, palette.starTint) : 0
+  const segCapacity = Math.max(poly.edges.length, poly.faces?.length ?? 0)
+  const positions = new Float32Array(segCapacity * 6)
+  const colors = new Float32Array(segCapacity * 6)
+  const depths = new Float32Array(segCapacity * 2)
+  const hairline = isHairline(params.stroke)
+  const glowPositions = new Float32Array(Math.max(poly.vertices.length, poly.edges.length) * 3)
+  const glowColors = new Float32Array(glowPositions.length)
+  const pa = new THREE.Vector3(), pb = new THREE.Vector3()
+
+  function drawFrame(tau: number): Buffer {
+    const buf = createBuffer(width, height)
+    for (let i = 0; i < width * height; i++) {
+      const n = spec.paper ? paper[i] : 0
+      buf.px[i * 3] = background.r + n; buf.px[i * 3 + 1] = background.g + n; buf.px[i * 3 + 2] = background.b + n
+    }
+    for (let i = 0; i < starCount; i++) {
+      const depth = toScreen(camera, buf, starPositions[i * 3], starPositions[i * 3 + 1], starPositions[i * 3 + 2], pa)
+      if (depth <= camera.near) continue
+      drawPoint(buf, pa.x, pa.y, STAR_SIZE * (height / 2) / depth, starColors[i * 3], starColors[i * 3 + 1], starColors[i * 3 + 2], 0.9, true)
+    }
+
+    const geom = frameGeometry(view, tau)
+    writeEdges(geom, params.baseHue, palette, positions, colors, depths)
+    applyStyleColors(params.style, colors)
+    const tubeScale = (height / 2) / Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)
+    for (let i = 0; i < geom.segments.length; i++) {
+      const o = i * 6
+      const da = toScreen(camera, buf, positions[o], positions[o + 1], positions[o + 2], pa)
+      const db = toScreen(camera, buf, positions[o + 3], positions[o + 4], positions[o + 5], pb)
+      if (da <= camera.near || db <= camera.near) continue
+      const ca = [colors[o], colors[o + 1], colors[o + 2]], cb = [colors[o + 3], colors[o + 4], colors[o + 5]]
+      if (spec.edges === 'tubes') {
+        // stand-in for the glass tubes: their projected width, mostly see-through
+        drawLine(buf, pa, pb, ca, cb, Math.max(1, (2 * TUBE_RADIUS * tubeScale) / ((da + db) / 2)), 0.3, false)
+      } else if (hairline) {
+        drawLine(buf, pa, pb, ca, cb, lineWidth, lineOpacity, additive)
+      } else {
+        drawStroke(buf, pa, pb, ca, cb, depths[i * 2], depths[i * 2 + 1], params.stroke, lineOpacity, additive)
+      }
+    }
+
+    if (spec.glow) {
+      writeGlow(geom, params.baseHue, palette, tau, null, glowPositions, glowColors)
+      applyStyleColors(params.style, glowColors)
+      for (let i = 0; i < geom.points.length; i++) {
+        const depth = toScreen(camera, buf, glowPositions[i * 3], glowPositions[i * 3 + 1], glowPositions[i * 3 + 2], pa)
+        if (depth <= camera.near) continue
+        drawPoint(buf, pa.x, pa.y, GLOW_SIZE * (height / 2) / depth, glowColors[i * 3], glowColors[i * 3 + 1], glowColors[i * 3 + 2], 0.85, additive)
+      }
+    }
+    return buf
+  }
+
+  let image: Buffer
+  if (spec.post && spec.trail && params.trail.enabled) {
+    // AfterimagePass: keep max(new, old * damp), dropping old texels at or below 0.1
+    const dt = 1 / TRAIL_FPS
+    const damp = Math.exp(-dt / params.trail.decaySeconds)
+    const frames = Math.ceil(Math.min(params.trail.decaySeconds * 3, 4) * TRAIL_FPS)
+    image = drawFrame(time - frames * dt)
+    for (let f = frames - 1; f >= 0; f--) {
+      const next = drawFrame(time - f * dt)
+      for (let i = 0; i < next.px.length; i++) {
+        const old = image.px[i] > 0.1 ? image.px[i] * damp : 0
+        if (old > next.px[i]) next.px[i] = old
+      }
+      image = next
+    }
+  } else {
+    image = drawFrame(time)
+  }
+
+  const pulse = pulses(time, null)
+  if (spec.post && spec.bloom) applyBloom(image, Math.max(0, params.bloom.strength + pulse.bloom), params.bloom.radius, params.bloom.threshold)
+  if (spec.post && spec.film) {
+    // FilmPass at intensity 0.2: brighten by base * (0.1 + noise), mixed in at 20%
+    const grain = mulberry32(params.stars.seed ^ 0x5bd1e995)
+    for (let i = 0; i < width * height; i++) {
+      const k = 0.2 * Math.min(1, 0.1 + grain())
+      for (let c = 0; c < 3; c++) image.px[i * 3 + c] += image.px[i * 3 + c] * k
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4)
+  // RGB shift samples red ahead and blue behind along x by a fraction of the width
+  const shift = spec.post && spec.rgbShift ? Math.round(pulse.rgbShift * width) : 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const rx = Math.min(width - 1, x + shift), bx = Math.max(0, x - shift)
+      let r = image.px[(y * width + rx) * 3], g = image.px[i * 3 + 1], b = image.px[(y * width + bx) * 3 + 2]
+      // the composer writes its last pass to the screen without sRGB encoding; direct renders are encoded
+      if (!spec.post) { r = linearToSrgb(r); g = linearToSrgb(g); b = linearToSrgb(b) }
+      data[i * 4] = Math.round(Math.min(1, Math.max(0, r)) * 255)
+      data[i * 4 + 1] = Math.round(Math.min(1, Math.max(0, g)) * 255)
+      data[i * 4 + 2] = Math.round(Math.min(1, Math.max(0, b)) * 255)
+      data[i * 4 + 3] = 255
+    }
+  }
+  return { width, height, data }
+}
@@ -0,0 +1,67 @@
+import * as THREE from 'three'
+import type { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js'
+
+export type StillSize = { id: string; label: string; width: number; height: number }
+
+// Print presets; A-series sizes are portrait at 300 dpi
+export const STILL_SIZES: StillSize[] = [
+  { id: '4k', label: '4K (3840×2160)', width: 3840, height: 2160 },
+  { id: '8k', label: '8K (7680×4320)', width: 7680, height: 4320 },
+  { id: 'a3', label: 'A3 @ 300 dpi', width: 3508, height: 4961 },
+  { id: 'a2', label: 'A2 @ 300 dpi', width: 4961, height: 7016 },
+]
+
+export type TiledRenderOptions = {
+  renderer: THREE.WebGLRenderer
+  camera: THREE.PerspectiveCamera
+  width: number
+  height: number
+  // null renders the scene directly (styles without post-processing)
+  composer: EffectComposer | null
+  scene: THREE.Scene
+  tileSize?: number
+  // called before each tile with the tile height, e.g. to keep point sizes relative to the full image
+  beforeTile?: (tileHeight: number) => void
+}
+
+// Render the current frame at an arbitrary size by stitching camera view-offset tiles on a 2D canvas.
+// The caller restores renderer/composer/camera sizes afterwards (a resize handler does all three).
+export function renderTiled(opts: TiledRenderOptions): HTMLCanvasElement {
+  const { renderer, camera, composer, scene, width, height } = opts
+  const tile = Math.min(opts.tileSize ?? 2048, renderer.capabilities.maxTextureSize)
+  const out = document.createElement('canvas')
+  out.width = width
+  out.height = height
+  const ctx = out.getContext('2d')
+  if (!ctx) throw new Error('2D canvas unavailable')
+
+  renderer.setPixelRatio(1)
+  camera.aspect = width / height
+  try {
+    for (let y = 0; y < height; y += tile) {
+      for (let x = 0; x < width; x += tile) {
+        const tw = Math.min(tile, width - x)
+        const th = Math.min(tile, height - y)
+        renderer.setSize(tw, th, false)
+        composer?.setSize(tw, th)
+        camera.setViewOffset(width, height, x, y, tw, th)
+        camera.updateProjectionMatrix()
+        opts.beforeTile?.(th)
+        renderer.clear()
+        if (composer) composer.render()
+        else renderer.render(scene, camera)
+        // copy before the drawing buffer is presented and cleared
+        ctx.drawImage(renderer.domElement, 0, 0, tw, th, x, y, tw, th)
+      }
+    }
+  } finally {
+    camera.clearViewOffset()
+  }
+  return out
+}
+
+export async function canvasToPng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('PNG encoding failed')
+  return new Uint8Array(await blob.arrayBuffer())
+}
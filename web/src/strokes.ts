@@ -0,0 +1,215 @@
+import * as THREE from 'three'
+import type { ArtParams, HiddenEdges } from './traits'
+
+// Thick edges drawn as screen-space capsules: one quad per segment, shaded in the fragment
+// shader by distance to the segment, so ends are round and edges meeting at a vertex join
+// round too. Width and brightness follow the w-depth t of each endpoint; the stretch of an
+// edge beyond w = 0 (t < 0.5) can be faded or dashed. The software renderer uses the same
+// functions below, so headless renders match.
+
+export type Stroke = ArtParams['stroke']
+
+// WebGL's own 1px lines; v1 and v2 pieces were drawn with these
+export function isHairline(stroke: Stroke): boolean {
+  return stroke.width <= 1 && stroke.depth === 0 && stroke.hidden === 'solid'
+}
+
+// Pixels per unit of stroke width in an image `height` pixels tall: a hairline's width, as on a ~1080p screen
+export function strokeUnit(height: number): number {
+  return Math.max(1, height / 1080)
+}
+
+// Half the stroke width in pixels at depth t
+export function strokeRadius(stroke: Stroke, t: number, height: number): number {
+  return Math.max(0.25, 0.5 * stroke.width * strokeUnit(height) * (1 - stroke.depth + 2 * stroke.depth * t))
+}
+
+// Dash period in pixels: on for half of it
+export function dashPeriod(stroke: Stroke, height: number): number {
+  return 6 * stroke.width * strokeUnit(height)
+}
+
+// Opacity factor at depth t, `along` pixels from the segment start; 0 in a dash gap
+export function strokeAlpha(stroke: Stroke, t: number, along: number, height: number): number {
+  const brightness = 1 - stroke.depth * 0.6 * (1 - t)
+  if (t >= 0.5) return brightness
+  if (stroke.hidden === 'faded') return brightness * 0.3
+  if (stroke.hidden === 'dashed') {
+    const period = dashPeriod(stroke, height)
+    return along % period < period / 2 ? brightness : 0
+  }
+  return brightness
+}
+
+const HIDDEN_CODE: Record<HiddenEdges, number> = { solid: 0, faded: 1, dashed: 2 }
+
+const vertexShader = /* glsl */ `
+  attribute vec3 instanceStart;
+  attribute vec3 instanceEnd;
+  attribute vec3 instanceColorStart;
+  attribute vec3 instanceColorEnd;
+  attribute float instanceDepthStart;
+  attribute float instanceDepthEnd;
+  uniform vec2 uResolution;
+  uniform float uWidth;
+  uniform float uDepth;
+  varying vec2 vPixel;
+  varying vec2 vA;
+  varying vec2 vB;
+  varying vec2 vRadius;
+  varying vec2 vDepth;
+  varying vec3 vColorA;
+  varying vec3 vColorB;
+
+  float radiusAt(float t) {
+    return max(0.25, 0.5 * uWidth * (1.0 - uDepth + 2.0 * uDepth * t));
+  }
+
+  void main() {
+    vec4 ca = projectionMatrix * modelViewMatrix * vec4(instanceStart, 1.0);
+    vec4 cb = projectionMatrix * modelViewMatrix * vec4(instanceEnd, 1.0);
+    if (ca.w <= 0.0 || cb.w <= 0.0) {
+      // behind the camera: drop the whole segment, as the software renderer does
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      return;
+    }
+    vec2 a = (ca.xy / ca.w * 0.5 + 0.5) * uResolution;
+    vec2 b = (cb.xy / cb.w * 0.5 + 0.5) * uResolution;
+    vRadius = vec2(radiusAt(instanceDepthStart), radiusAt(instanceDepthEnd));
+    vec2 d = b - a;
+    float len = length(d);
+    vec2 dir = len > 1e-4 ? d / len : vec2(1.0, 0.0);
+    vec2 n = vec2(-dir.y, dir.x);
+    // the quad covers the capsule plus a pixel of antialiasing
+    float r = max(vRadius.x, vRadius.y) + 1.0;
+    vec2 p = (position.x < 0.5 ? a - dir * r : b + dir * r) + n * position.y * r;
+    vPixel = p;
+    vA = a;
+    vB = b;
+    vDepth = vec2(instanceDepthStart, instanceDepthEnd);
+    vColorA = instanceColorStart;
+    vColorB = instanceColorEnd;
+    // w = 1 keeps every varying linear in screen space
+    float z = position.x < 0.5 ? ca.z / ca.w : cb.z / cb.w;
+    gl_Position = vec4(p / uResolution * 2.0 - 1.0, z, 1.0);
+  }
+`
+
+const fragmentShader = /* glsl */ `
+  uniform float opacity;
+  uniform float uDepth;
+  uniform int uHidden;
+  uniform float uDash;
+  varying vec2 vPixel;
+  varying vec2 vA;
+  varying vec2 vB;
+  varying vec2 vRadius;
+  varying vec2 vDepth;
+  varying vec3 vColorA;
+  varying vec3 vColorB;
+
+  void main() {
+    vec2 ab = vB - vA;
+    float len2 = dot(ab, ab);
+    float h = len2 > 0.0 ? clamp(dot(vPixel - vA, ab) / len2, 0.0, 1.0) : 0.0;
+    float coverage = clamp(mix(vRadius.x, vRadius.y, h) - length(vPixel - (vA + ab * h)) + 0.5, 0.0, 1.0);
+    if (coverage <= 0.0) discard;
+    float t = mix(vDepth.x, vDepth.y, h);
+    float alpha = 1.0 - uDepth * 0.6 * (1.0 - t);
+    if (t < 0.5) {
+      if (uHidden == 1) alpha *= 0.3;
+      else if (uHidden == 2 && mod(h * sqrt(len2), uDash) >= uDash * 0.5) discard;
+    }
+    gl_FragColor = vec4(mix(vColorA, vColorB, h), coverage * alpha * opacity);
+    #include <colorspace_fragment>
+  }
+`
+
+export type FatEdges = {
+  mesh: THREE.Mesh
+  material: THREE.ShaderMaterial
+  capacity: number
+  setStroke(stroke: Stroke): void
+  // drawing-buffer size in pixels
+  setResolution(width: number, height: number): void
+  // the line-segment buffers (two endpoints per edge) plus each endpoint's depth t
+  update(positions: Float32Array, colors: Float32Array, depths: Float32Array, edgeCount: number): void
+  dispose(): void
+}
+
+export function createFatEdges(capacity: number): FatEdges {
+  const geometry = new THREE.InstancedBufferGeometry()
+  // corners: x picks the endpoint, y the side
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, -1, 0, 0, 1, 0, 1, -1, 0, 1, 1, 0], 3))
+  geometry.setIndex([0, 2, 1, 2, 3, 1])
+  const positions = new THREE.InstancedInterleavedBuffer(new Float32Array(capacity * 6), 6, 1).setUsage(THREE.DynamicDrawUsage)
+  const colors = new THREE.InstancedInterleavedBuffer(new Float32Array(capacity * 6), 6, 1).setUsage(THREE.DynamicDrawUsage)
+  const depths = new THREE.InstancedInterleavedBuffer(new Float32Array(capacity * 2), 2, 1).setUsage(THREE.DynamicDrawUsage)
+  geometry.setAttribute('instanceStart', new THREE.InterleavedBufferAttribute(positions, 3, 0))
+  geometry.setAttribute('instanceEnd', new THREE.InterleavedBufferAttribute(positions, 3, 3))
+  geometry.setAttribute('instanceColorStart', new THREE.InterleavedBufferAttribute(colors, 3, 0))
+  geometry.setAttribute('instanceColorEnd', new THREE.InterleavedBufferAttribute(colors, 3, 3))
+  geometry.setAttribute('instanceDepthStart', new THREE.InterleavedBufferAttribute(depths, 1, 0))
+  geometry.setAttribute('instanceDepthEnd', new THREE.InterleavedBufferAttribute(depths, 1, 1))
+  geometry.instanceCount = 0
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      opacity: { value: 0.65 },
+      uResolution: { value: new THREE.Vector2(1, 1) },
+      uWidth: { value: 1 },
+      uDepth: { value: 0 },
+      uHidden: { value: 0 },
+      uDash: { value: 6 },
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  })
+  const mesh = new THREE.Mesh(geometry, material)
+  mesh.frustumCulled = false
+
+  let stroke: Stroke = { width: 1, depth: 0, hidden: 'solid' }
+  let height = 1
+
+  // the width and dash uniforms are in pixels, so they follow both the stroke and the buffer size
+  function syncUniforms() {
+    const u = material.uniforms
+    u.uWidth.value = stroke.width * strokeUnit(height)
+    u.uDepth.value = stroke.depth
+    u.uHidden.value = HIDDEN_CODE[stroke.hidden]
+    u.uDash.value = dashPeriod(stroke, height)
+  }
+
+  return {
+    mesh,
+    material,
+    capacity,
+    setStroke(s) {
+      stroke = s
+      syncUniforms()
+    },
+    setResolution(w, h) {
+      if (material.uniforms.uResolution.value.x === w && height === h) return
+      material.uniforms.uResolution.value.set(w, h)
+      height = h
+      syncUniforms()
+    },
+    update(pos, col, dep, edgeCount) {
+      const count = Math.min(edgeCount, capacity)
+      positions.array.set(pos.subarray(0, count * 6))
+      colors.array.set(col.subarray(0, count * 6))
+      depths.array.set(dep.subarray(0, count * 2))
+      positions.needsUpdate = true
+      colors.needsUpdate = true
+      depths.needsUpdate = true
+      geometry.instanceCount = count
+    },
+    dispose() {
+      geometry.dispose()
+      material.dispose()
+    },
+  }
+}
@@ -0,0 +1,158 @@
+import * as THREE from 'three'
+import type { StyleId } from './traits'
+
+// How a style renders: clear color, which composer passes run, and which edge/point materials are used
+export type StyleSpec = {
+  background: string
+  // false renders the scene directly, skipping the composer entirely
+  post: boolean
+  bloom: boolean
+  film: boolean
+  rgbShift: boolean
+  // whether the afterimage trail may run (the trail checkbox still has to be on)
+  trail: boolean
+  edges: 'lines' | 'tubes'
+  blending: THREE.Blending
+  paper: boolean
+  stars: boolean
+  glow: boolean
+}
+
+export const STYLES: Record<StyleId, StyleSpec> = {
+  nebula: { background: '#0b0e14', post: true, bloom: true, film: true, rgbShift: true, trail: true, edges: 'lines', blending: THREE.AdditiveBlending, paper: false, stars: true, glow: true },
+  glass: { background: '#0b0e14', post: true, bloom: true, film: false, rgbShift: false, trail: true, edges: 'tubes', blending: THREE.NormalBlending, paper: false, stars: true, glow: false },
+  ink: { background: '#f3eee2', post: false, bloom: false, film: false, rgbShift: false, trail: false, edges: 'lines', blending: THREE.NormalBlending, paper: true, stars: false, glow: true },
+  lines: { background: '#0b0e14', post: false, bloom: false, film: false, rgbShift: false, trail: false, edges: 'lines', blending: THREE.NormalBlending, paper: false, stars: true, glow: false },
+}
+
+// Per-style color adjustments applied to the edge colors after the palette
+export function applyStyleColors(style: StyleId, colors: Float32Array) {
+  switch (style) {
+    case 'nebula': {
+      // soften lines toward luminance for a smoky feel
+      for (let i = 0; i < colors.length; i += 3) {
+        const r = colors[i], g = colors[i + 1], b = colors[i + 2]
+        const l = (r + g + b) / 3
+        colors[i] = r * 0.9 + l * 0.1
+        colors[i + 1] = g * 0.9 + l * 0.1
+        colors[i + 2] = b * 0.9 + l * 0.1
+      }
+      break
+    }
+    case 'glass': {
+      for (let i = 0; i < colors.length; i += 3) {
+        colors[i] = Math.min(1, colors[i] * 1.25)
+        colors[i + 1] = Math.min(1, colors[i + 1] * 1.25)
+        colors[i + 2] = Math.min(1, colors[i + 2] * 1.25)
+      }
+      break
+    }
+    case 'ink': {
+      // dark strokes on paper: keep a hint of the palette, brighter colors become lighter ink
+      for (let i = 0; i < colors.length; i += 3) {
+        const l = (colors[i] + colors[i + 1] + colors[i + 2]) / 3
+        const ink = 0.06 + 0.3 * l
+        colors[i] = ink + (colors[i] - l) * 0.15
+        colors[i + 1] = ink + (colors[i + 1] - l) * 0.15
+        colors[i + 2] = ink + (colors[i + 2] - l) * 0.15
+      }
+      break
+    }
+    case 'lines':
+    default:
+      break
+  }
+}
+
+// Procedural paper: warm base with speckle and faint fibers
+export function createPaperTexture(rng: () => number, size = 512): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas')
+  canvas.width = canvas.height = size
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#f3eee2'
+  ctx.fillRect(0, 0, size, size)
+  const img = ctx.getImageData(0, 0, size, size)
+  for (let i = 0; i < img.data.length; i += 4) {
+    const n = (rng() - 0.5) * 14
+    img.data[i] += n; img.data[i + 1] += n; img.data[i + 2] += n
+  }
+  ctx.putImageData(img, 0, 0)
+  ctx.strokeStyle = 'rgba(120, 100, 70, 0.06)'
+  for (let i = 0; i < 400; i++) {
+    const x = rng() * size, y = rng() * size, a = rng() * Math.PI
+    ctx.beginPath()
+    ctx.moveTo(x, y)
+    ctx.lineTo(x + Math.cos(a) * 12, y + Math.sin(a) * 12)
+    ctx.stroke()
+  }
+  const tex = new THREE.CanvasTexture(canvas)
+  tex.colorSpace = THREE.SRGBColorSpace
+  return tex
+}
+
+export type TubeEdges = {
+  mesh: THREE.InstancedMesh
+  capacity: number
+  update(positions: Float32Array, colors: Float32Array, edgeCount: number): void
+  dispose(): void
+}
+
+// One instanced cylinder per edge, re-posed each frame from the projected line-segment buffers
+export function createTubeEdges(capacity: number, radius = 0.035): TubeEdges {
+  const geometry = new THREE.CylinderGeometry(1, 1, 1, 12, 1, true)
+  const material = new THREE.MeshPhysicalMaterial({
+    color: '#ffffff',
+    transmission: 0.9,
+    thickness: 0.4,
+    ior: 1.45,
+    roughness: 0.08,
+    metalness: 0,
+    clearcoat: 1,
+    transparent: true,
+  })
+  const mesh = new THREE.InstancedMesh(geometry, material, capacity)
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+  mesh.setColorAt(0, new THREE.Color())
+  mesh.instanceColor!.setUsage(THREE.DynamicDrawUsage)
+  mesh.frustumCulled = false
+
+  const a = new THREE.Vector3()
+  const b = new THREE.Vector3()
+  const dir = new THREE.Vector3()
+  const up = new THREE.Vector3(0, 1, 0)
+  const q = new THREE.Quaternion()
+  const scale = new THREE.Vector3()
+  const m = new THREE.Matrix4()
+
+  return {
+    mesh,
+    capacity,
+    update(positions, colors, edgeCount) {
+      const count = Math.min(edgeCount, capacity)
+      const instColors = mesh.instanceColor!.array as Float32Array
+      for (let i = 0; i < count; i++) {
+        const o = i * 6
+        a.set(positions[o], positions[o + 1], positions[o + 2])
+        b.set(positions[o + 3], positions[o + 4], positions[o + 5])
+        dir.subVectors(b, a)
+        const len = dir.length()
+        q.setFromUnitVectors(up, len > 1e-6 ? dir.divideScalar(len) : up)
+        scale.set(radius, len, radius)
+        m.compose(a.add(b).multiplyScalar(0.5), q, scale)
+        mesh.setMatrixAt(i, m)
+        // average the two endpoint colors
+        instColors[i * 3] = (colors[o] + colors[o + 3]) * 0.5
+        instColors[i * 3 + 1] = (colors[o + 1] + colors[o + 4]) * 0.5
+        instColors[i * 3 + 2] = (colors[o + 2] + colors[o + 5]) * 0.5
+      }
+      mesh.count = count
+      mesh.instanceMatrix.needsUpdate = true
+      mesh.instanceColor!.needsUpdate = true
+    },
+    dispose() {
+      geometry.dispose()
+      material.dispose()
+      mesh.dispose()
+    },
+  }
+}
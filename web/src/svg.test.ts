@@ -0,0 +1,36 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import { wireframeToSvg, type SvgOptions, type Wireframe } from './svg'
+
+const options: SvgOptions = {
+  page: 'a4',
+  landscape: true,
+  marginMm: 10,
+  pens: 1,
+  depth: 'none',
+  strokeMm: 0.3,
+  color: () => '#000000',
+  trails: false,
+}
+
+// a square facing the camera
+const square: Wireframe = {
+  points: [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([x, y]) => ({ x, y, z: 0, t: 0.5 })),
+  edges: [[0, 1], [1, 2], [2, 3], [3, 0]],
+}
+
+function drawingSize(svg: string): { width: number; height: number } {
+  const coords = [...svg.matchAll(/d="M([^"]+)"/g)].flatMap(m => m[1].split(' L').map(p => p.split(' ').map(Number)))
+  const xs = coords.map(c => c[0]), ys = coords.map(c => c[1])
+  return { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+}
+
+describe('wireframeToSvg', () => {
+  it.each([16 / 9, 1, 9 / 16])('keeps a square square through a %f viewport', (aspect) => {
+    const camera = new THREE.PerspectiveCamera(50, aspect, 0.1, 100)
+    camera.position.set(0, 0, 6)
+    camera.updateMatrixWorld()
+    const { width, height } = drawingSize(wireframeToSvg([square], camera, options))
+    expect(width / height).toBeCloseTo(1, 2)
+  })
+})
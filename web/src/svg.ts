@@ -0,0 +1,182 @@
+import * as THREE from 'three'
+import type { Projected } from './geometry4d'
+
+export type PageSize = 'a4' | 'a3' | 'a2' | 'letter'
+
+// Portrait width x height in millimetres
+export const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  a4: [210, 297],
+  a3: [297, 420],
+  a2: [420, 594],
+  letter: [215.9, 279.4],
+}
+
+// weight: nearer edges get thicker strokes; hidden: edges behind projected 2-faces are cut away
+export type DepthMode = 'none' | 'weight' | 'hidden'
+
+// One sampled pose: projected 3D points (world space, with w-depth t) and the segments between them
+export type Wireframe = {
+  points: Projected[]
+  edges: Array<[number, number]>
+  // polygons (vertex indices) that can hide edges in 'hidden' mode
+  faces?: number[][]
+}
+
+export type SvgOptions = {
+  page: PageSize
+  landscape: boolean
+  marginMm: number
+  // number of pen layers t is split into; 0 colors each stroke individually on one layer
+  pens: number
+  depth: DepthMode
+  strokeMm: number
+  color: (t: number) => string
+  // long exposure only: also trace each vertex through the samples
+  trails: boolean
+  title?: string
+  // serialized into <metadata>
+  metadata?: Record<string, string>
+}
+
+type Stroke = { pts: Array<[number, number]>; t: number; depth: number; frame: number }
+
+const HIDDEN_SAMPLES = 16
+
+function escapeXml(s: string): string {
+  return s.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[c]!)
+}
+
+// Screen-space triangles of the faces, each with per-corner depth, for the occlusion test
+function faceTriangles(screen: THREE.Vector3[], faces: number[][]): Array<{ face: number[]; a: THREE.Vector3; b: THREE.Vector3; c: THREE.Vector3 }> {
+  const tris: Array<{ face: number[]; a: THREE.Vector3; b: THREE.Vector3; c: THREE.Vector3 }> = []
+  for (const f of faces) {
+    for (let k = 1; k + 1 < f.length; k++) tris.push({ face: f, a: screen[f[0]], b: screen[f[k]], c: screen[f[k + 1]] })
+  }
+  return tris
+}
+
+// Depth of the triangle at (x, y) if the point lies inside it
+function depthInTriangle(x: number, y: number, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number | null {
+  const d = (b.y - c.y) * (a.x - c.x) + (c.x - b.x) * (a.y - c.y)
+  if (Math.abs(d) < 1e-12) return null
+  const u = ((b.y - c.y) * (x - c.x) + (c.x - b.x) * (y - c.y)) / d
+  const v = ((c.y - a.y) * (x - c.x) + (a.x - c.x) * (y - c.y)) / d
+  const w = 1 - u - v
+  if (u < 0 || v < 0 || w < 0) return null
+  return u * a.z + v * b.z + w * c.z
+}
+
+// Width over height of what the camera sees; NDC spans -1..1 both ways whatever the viewport shape
+function cameraAspect(camera: THREE.Camera): number {
+  if (camera instanceof THREE.PerspectiveCamera) return camera.aspect
+  if (camera instanceof THREE.OrthographicCamera) return (camera.right - camera.left) / (camera.top - camera.bottom)
+  return 1
+}
+
+// Camera-projected strokes for one sample; `screen` holds NDC x stretched by the aspect (so x and y
+// share a unit, as on screen), NDC y and depth z
+function frameStrokes(frame: Wireframe, camera: THREE.Camera, depth: DepthMode, index: number): { strokes: Stroke[]; screen: THREE.Vector3[] } {
+  const aspect = cameraAspect(camera)
+  const screen = frame.points.map(p => {
+    const v = new THREE.Vector3(p.x, p.y, p.z).project(camera)
+    v.x *= aspect
+    return v
+  })
+  const strokes: Stroke[] = []
+  const tris = depth === 'hidden' && frame.faces ? faceTriangles(screen, frame.faces) : []
+  for (const [a, b] of frame.edges) {
+    const sa = screen[a], sb = screen[b]
+    const t = (frame.points[a].t + frame.points[b].t) / 2
+    if (!tris.length) {
+      strokes.push({ pts: [[sa.x, sa.y], [sb.x, sb.y]], t, depth: (sa.z + sb.z) / 2, frame: index })
+      continue
+    }
+    // walk the edge in pieces and keep runs whose midpoints no face is in front of
+    let run: Array<[number, number]> | null = null
+    for (let i = 0; i < HIDDEN_SAMPLES; i++) {
+      const u0 = i / HIDDEN_SAMPLES, u1 = (i + 1) / HIDDEN_SAMPLES, um = (u0 + u1) / 2
+      const mx = sa.x + (sb.x - sa.x) * um, my = sa.y + (sb.y - sa.y) * um, mz = sa.z + (sb.z - sa.z) * um
+      // faces the edge belongs to cannot hide it
+      const hidden = tris.some(tri => {
+        if (tri.face.includes(a) && tri.face.includes(b)) return false
+        const z = depthInTriangle(mx, my, tri.a, tri.b, tri.c)
+        return z !== null && z < mz - 1e-4
+      })
+      if (hidden) {
+        if (run) strokes.push({ pts: run, t, depth: (sa.z + sb.z) / 2, frame: index })
+        run = null
+        continue
+      }
+      const p0: [number, number] = [sa.x + (sb.x - sa.x) * u0, sa.y + (sb.y - sa.y) * u0]
+      const p1: [number, number] = [sa.x + (sb.x - sa.x) * u1, sa.y + (sb.y - sa.y) * u1]
+      if (run) run.push(p1)
+      else run = [p0, p1]
+    }
+    if (run) strokes.push({ pts: run, t, depth: (sa.z + sb.z) / 2, frame: index })
+  }
+  return { strokes, screen }
+}
+
+// Vector wireframe for plotters. Several frames make a long exposure, oldest first.
+export function wireframeToSvg(frames: Wireframe[], camera: THREE.Camera, opts: SvgOptions): string {
+  const strokes: Stroke[] = []
+  const screens: THREE.Vector3[][] = []
+  frames.forEach((frame, i) => {
+    const { strokes: s, screen } = frameStrokes(frame, camera, opts.depth, i)
+    strokes.push(...s)
+    screens.push(screen)
+  })
+  if (opts.trails && frames.length > 1) {
+    const last = frames[frames.length - 1]
+    last.points.forEach((p, vi) => {
+      const pts = screens.map(screen => [screen[vi].x, screen[vi].y] as [number, number])
+      strokes.push({ pts, t: p.t, depth: screens[screens.length - 1][vi].z, frame: frames.length - 1 })
+    })
+  }
+
+  // fit the drawing's bounds into the page margins, keeping its aspect; NDC y points up
+  const [pw, ph] = opts.landscape ? [PAGE_SIZES[opts.page][1], PAGE_SIZES[opts.page][0]] : PAGE_SIZES[opts.page]
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity, minZ = Infinity, maxZ = -Infinity
+  for (const s of strokes) {
+    for (const [x, y] of s.pts) { minX = Math.min(minX, x); maxX = Math.max(maxX, x); minY = Math.min(minY, y); maxY = Math.max(maxY, y) }
+    minZ = Math.min(minZ, s.depth); maxZ = Math.max(maxZ, s.depth)
+  }
+  const cw = pw - opts.marginMm * 2, ch = ph - opts.marginMm * 2
+  const scale = strokes.length ? Math.min(cw / Math.max(maxX - minX, 1e-9), ch / Math.max(maxY - minY, 1e-9)) : 1
+  const ox = opts.marginMm + (cw - (maxX - minX) * scale) / 2
+  const oy = opts.marginMm + (ch - (maxY - minY) * scale) / 2
+  const fmt = (n: number) => (Math.round(n * 100) / 100).toString()
+  const toPage = ([x, y]: [number, number]) => `${fmt(ox + (x - minX) * scale)} ${fmt(oy + (maxY - y) * scale)}`
+
+  const layerCount = Math.max(1, opts.pens)
+  const layers: string[][] = Array.from({ length: layerCount }, () => [])
+  // far strokes first so near ones land on top in previews
+  strokes.sort((a, b) => b.depth - a.depth)
+  for (const s of strokes) {
+    const layer = opts.pens > 0 ? Math.min(opts.pens - 1, Math.floor(s.t * opts.pens)) : 0
+    const near = maxZ > minZ ? 1 - (s.depth - minZ) / (maxZ - minZ) : 0.5
+    const width = opts.depth === 'weight' ? opts.strokeMm * (0.5 + near) : opts.strokeMm
+    const attrs = [`d="M${s.pts.map(toPage).join(' L')}"`, `stroke-width="${fmt(width)}"`]
+    if (opts.pens === 0) attrs.push(`stroke="${opts.color(s.t)}"`)
+    // older exposure samples fade on screen; plotters ignore opacity
+    if (frames.length > 1) attrs.push(`stroke-opacity="${fmt(0.25 + 0.75 * (s.frame + 1) / frames.length)}"`)
+    layers[layer].push(`    <path ${attrs.join(' ')}/>`)
+  }
+
+  const out = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${fmt(pw)}mm" height="${fmt(ph)}mm" viewBox="0 0 ${fmt(pw)} ${fmt(ph)}">`,
+  ]
+  if (opts.title) out.push(`  <title>${escapeXml(opts.title)}</title>`)
+  if (opts.metadata) out.push(`  <metadata>${escapeXml(JSON.stringify(opts.metadata))}</metadata>`)
+  layers.forEach((paths, i) => {
+    // one Inkscape layer per pen, named by its color so it can be swapped at the plotter
+    const color = opts.pens > 0 ? opts.color((i + 0.5) / opts.pens) : 'palette'
+    const stroke = opts.pens > 0 ? ` stroke="${color}"` : ''
+    out.push(`  <g inkscape:groupmode="layer" id="pen-${i + 1}" inkscape:label="${i + 1} ${color}" fill="none"${stroke} stroke-linecap="round" stroke-linejoin="round">`)
+    out.push(...paths)
+    out.push('  </g>')
+  })
+  out.push('</svg>', '')
+  return out.join('\n')
+}
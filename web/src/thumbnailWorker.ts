@@ -0,0 +1,31 @@
+import { getPolytope } from './geometry4d'
+import { generatePalette, registerPalette } from './palette'
+import { encodePng } from './png'
+import { renderSoftware } from './software'
+import { deriveArtParams } from './traits'
+
+// Gallery thumbnails, drawn off the main thread with the software renderer so the artwork keeps
+// animating. Each is the seeded pose at animation time 0 without trail history, which at
+// thumbnail size costs much more than it shows.
+
+export type ThumbnailRequest = { id: number; randomness: string; algorithm: number; size: number }
+export type ThumbnailResponse = { id: number; png: Uint8Array } | { id: number; error: string }
+
+self.onmessage = (ev: MessageEvent<ThumbnailRequest>) => {
+  const { id, randomness, algorithm, size } = ev.data
+  try {
+    const params = deriveArtParams(randomness, algorithm)
+    // this worker's own registry, so the main view's generated palette is untouched
+    registerPalette(generatePalette(randomness))
+    const image = renderSoftware({
+      width: size,
+      height: size,
+      params: { ...params, trail: { ...params.trail, enabled: false } },
+      poly: getPolytope(params.shape),
+    })
+    const png = encodePng(image.data, size, size)
+    self.postMessage({ id, png } satisfies ThumbnailResponse, { transfer: [png.buffer] })
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) } satisfies ThumbnailResponse)
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { ALGORITHM_VERSION, deriveArtParams } from './traits'
+
+// Rounds minted under a version must keep their look: a change to a weight table or to the order
+// of draws shows up here. Update a snapshot only together with a new ALGORITHM_VERSION.
+const RANDOMNESS = [
+  // drand testnet round 20000 (fixtures/testnet-unchained.json)
+  '49891540810f410d114b25bdd47e6c14d316da3e513a82e91cc705a9bbb43fb3',
+  '00'.repeat(32),
+]
+
+describe('deriveArtParams', () => {
+  const versions = Array.from({ length: ALGORITHM_VERSION }, (_, i) => i + 1)
+
+  it.each(versions)('is fixed for version %i', (version) => {
+    for (const randomness of RANDOMNESS) expect(deriveArtParams(randomness, version)).toMatchSnapshot(randomness.slice(0, 8))
+  })
+
+  it('defaults to the current version', () => {
+    expect(deriveArtParams(RANDOMNESS[0])).toEqual(deriveArtParams(RANDOMNESS[0], ALGORITHM_VERSION))
+  })
+})
@@ -0,0 +1,196 @@
+import { sha256 } from '@noble/hashes/sha2'
+import { concatBytes, hexToBytes } from '@noble/hashes/utils'
+import type { ProjectionMode, RotationAngles4D } from './geometry4d'
+
+// Bump when derivation changes; old versions stay here so existing (round, version) pairs keep rendering the same
+export const ALGORITHM_VERSION = 3
+
+export type ShapeId = 'tesseract' | 'simplex' | 'cross' | '24cell' | '120cell' | '600cell'
+export type PaletteId = 'ocean' | 'pastel' | 'dusk' | 'sunrise' | 'aurora' | 'rainforest' | 'candy' | 'fire' | 'ice' | 'galaxy' | 'mono' | 'vivid'
+export type StyleId = 'nebula' | 'glass' | 'ink' | 'lines'
+// how edge stretches beyond w = 0, on the far side of the fourth dimension, are drawn
+export type HiddenEdges = 'solid' | 'faded' | 'dashed'
+
+export type ArtParams = {
+  version: number
+  // a registered polytope id; seeded values are always built-in shapes
+  shape: string
+  // a registered palette id; seeded values are always built-in palettes
+  palette: string
+  style: StyleId
+  // base hue in degrees [0, 360)
+  baseHue: number
+  // starting pose and per-plane angular velocity (rad/s)
+  angles: RotationAngles4D
+  rates: RotationAngles4D
+  bloom: { strength: number; radius: number; threshold: number }
+  trail: { enabled: boolean; decaySeconds: number }
+  stars: { count: number; seed: number }
+  camera: { distance: number; fov: number; yaw: number; pitch: number }
+  // distance: w of the perspective/Schlegel viewpoint; slice: hyperplane offset as a fraction of the circumradius
+  projection: { mode: ProjectionMode; distance: number; slice: number }
+  // edge width in pixels at 1080 lines; depth 0..1 is how much thinner and dimmer far edges get
+  stroke: { width: number; depth: number; hidden: HiddenEdges }
+}
+
+export type Weighted<T> = ReadonlyArray<readonly [T, number]>
+
+// Rarity tables for v1. Weights are relative; the comment gives the resulting odds.
+export const SHAPE_WEIGHTS_V1: Weighted<ShapeId> = [
+  ['tesseract', 40], // 40%
+  ['24cell', 20],    // 20%
+  ['cross', 20],     // 20%
+  ['simplex', 20],   // 20%
+]
+
+export const PALETTE_WEIGHTS_V1: Weighted<PaletteId> = [
+  ['ocean', 14],      // 14%
+  ['pastel', 10],     // 10%
+  ['dusk', 10],       // 10%
+  ['sunrise', 10],    // 10%
+  ['aurora', 8],      // 8%
+  ['rainforest', 8],  // 8%
+  ['candy', 8],       // 8%
+  ['fire', 8],        // 8%
+  ['ice', 8],         // 8%
+  ['galaxy', 8],      // 8%
+  ['vivid', 5],       // 5%
+  ['mono', 3],        // 3%, the rarest palette
+]
+
+export const STYLE_WEIGHTS_V1: Weighted<StyleId> = [
+  ['nebula', 50], // 50%
+  ['glass', 20],  // 20%
+  ['lines', 20],  // 20%
+  ['ink', 10],    // 10%
+]
+
+// Trail is on in 85% of pieces
+export const TRAIL_ODDS_V1 = 0.85
+
+// v2 adds a seeded 4D->3D projection; most pieces keep the classic perspective view
+export const PROJECTION_WEIGHTS_V2: Weighted<ProjectionMode> = [
+  ['perspective', 70],   // 70%
+  ['stereographic', 10], // 10%
+  ['orthographic', 8],   // 8%
+  ['schlegel', 7],       // 7%
+  ['slice', 5],          // 5%
+]
+
+// v3 adds seeded strokes; most pieces draw far edges like near ones
+export const HIDDEN_WEIGHTS_V3: Weighted<HiddenEdges> = [
+  ['solid', 60],  // 60%
+  ['faded', 25],  // 25%
+  ['dashed', 15], // 15%
+]
+
+// Hash-based stream: sha256(randomness | label | counter) blocks, 4 bytes per draw.
+// Each trait gets its own label so no two traits read the same bytes.
+export function createTraitRng(randomness: string, label: string): () => number {
+  const seed = hexToBytes(randomness)
+  const tag = new TextEncoder().encode(label)
+  const counterBytes = new Uint8Array(4)
+  const counterView = new DataView(counterBytes.buffer)
+  let counter = 0
+  let block = new Uint8Array(0)
+  let offset = 0
+  return () => {
+    if (offset + 4 > block.length) {
+      counterView.setUint32(0, counter++, false)
+      block = sha256(concatBytes(seed, tag, counterBytes))
+      offset = 0
+    }
+    const x = new DataView(block.buffer, block.byteOffset).getUint32(offset, false)
+    offset += 4
+    return x / 4294967296
+  }
+}
+
+export function pickWeighted<T>(rng: () => number, table: Weighted<T>): T {
+  const total = table.reduce((sum, [, w]) => sum + w, 0)
+  let r = rng() * total
+  for (const [value, w] of table) {
+    if (r < w) return value
+    r -= w
+  }
+  return table[table.length - 1][0]
+}
+
+function range(rng: () => number, min: number, max: number): number {
+  return min + rng() * (max - min)
+}
+
+function deriveV1(randomness: string): ArtParams {
+  const stream = (label: string) => createTraitRng(randomness, `tesseract/v1/${label}`)
+
+  const angle = stream('angles')
+  const toAngle = () => angle() * Math.PI * 2 - Math.PI
+  // rates keep the original 0.27..0.37 rad/s feel, with a random direction per plane
+  const rate = stream('rates')
+  const toRate = () => (rate() < 0.5 ? -1 : 1) * range(rate, 0.25, 0.4)
+
+  const bloom = stream('bloom')
+  const trail = stream('trail')
+  const stars = stream('stars')
+  const camera = stream('camera')
+
+  return {
+    version: 1,
+    shape: pickWeighted(stream('shape'), SHAPE_WEIGHTS_V1),
+    palette: pickWeighted(stream('palette'), PALETTE_WEIGHTS_V1),
+    style: pickWeighted(stream('style'), STYLE_WEIGHTS_V1),
+    baseHue: Math.floor(stream('hue')() * 360),
+    angles: { xy: toAngle(), xz: toAngle(), xw: toAngle(), yz: toAngle(), yw: toAngle(), zw: toAngle() },
+    rates: { xy: toRate(), xz: toRate(), xw: toRate(), yz: toRate(), yw: toRate(), zw: toRate() },
+    bloom: { strength: range(bloom, 2.5, 5.5), radius: range(bloom, 0.4, 0.6), threshold: 0.7 },
+    trail: { enabled: trail() < TRAIL_ODDS_V1, decaySeconds: Math.round(range(trail, 1, 4) * 10) / 10 },
+    stars: { count: Math.floor(range(stars, 600, 1500)), seed: Math.floor(stars() * 4294967296) >>> 0 },
+    camera: { distance: range(camera, 5.5, 7), fov: range(camera, 55, 65), yaw: range(camera, -0.6, 0.6), pitch: range(camera, -0.3, 0.3) },
+    // v1 predates projection modes and always rendered this
+    projection: { mode: 'perspective', distance: 3, slice: 0 },
+    // and hairline edges
+    stroke: { width: 1, depth: 0, hidden: 'solid' },
+  }
+}
+
+// v1 plus a seeded projection; every v1 trait reads the same streams, so only the projection differs
+function deriveV2(randomness: string): ArtParams {
+  const projection = createTraitRng(randomness, 'tesseract/v2/projection')
+  return {
+    ...deriveV1(randomness),
+    version: 2,
+    projection: {
+      mode: pickWeighted(projection, PROJECTION_WEIGHTS_V2),
+      distance: Math.round(range(projection, 2.4, 4) * 100) / 100,
+      slice: Math.round(range(projection, -0.5, 0.5) * 100) / 100,
+    },
+  }
+}
+
+// v2 plus seeded strokes, read from their own stream so every v2 trait stays as it was
+function deriveV3(randomness: string): ArtParams {
+  const stroke = createTraitRng(randomness, 'tesseract/v3/stroke')
+  return {
+    ...deriveV2(randomness),
+    version: 3,
+    stroke: {
+      width: Math.round(range(stroke, 1.5, 4) * 10) / 10,
+      depth: Math.round(range(stroke, 0.2, 0.8) * 100) / 100,
+      hidden: pickWeighted(stroke, HIDDEN_WEIGHTS_V3),
+    },
+  }
+}
+
+// Expand beacon randomness into the full parameter set for a given algorithm version
+export function deriveArtParams(randomness: string, version = ALGORITHM_VERSION): ArtParams {
+  switch (version) {
+    case 1:
+      return deriveV1(randomness)
+    case 2:
+      return deriveV2(randomness)
+    case 3:
+      return deriveV3(randomness)
+    default:
+      throw new Error(`unknown algorithm version ${version}`)
+  }
+}
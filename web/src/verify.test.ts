@@ -0,0 +1,91 @@
+import { readFileSync } from 'node:fs'
+import { sha256 } from '@noble/hashes/sha2'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils'
+import type { RandomnessBeacon } from 'drand-client'
+import { describe, expect, it } from 'vitest'
+import type { BeaconFixture } from './beacons'
+import { CHAINS } from './drand'
+import { computeChainHash, verifyBeacon, verifyChainInfo, type BeaconVerification, type TrustAnchor } from './verify'
+
+// testnet-unchained is recorded from drand's public testnet; chained-g2 (mainnet's scheme) and
+// unchained-g1 (quicknet's) are signed with test keys by scripts/sign-fixtures.mjs
+const FIXTURES = ['testnet-unchained', 'chained-g2', 'unchained-g1']
+
+function loadFixture(name: string): BeaconFixture {
+  return JSON.parse(readFileSync(new URL(`../fixtures/${name}.json`, import.meta.url), 'utf8'))
+}
+
+function flipByte(hex: string, index: number): string {
+  const bytes = hexToBytes(hex)
+  bytes[index] ^= 0x01
+  return bytesToHex(bytes)
+}
+
+function expectRejected(result: BeaconVerification, reason?: RegExp) {
+  expect(result.ok).toBe(false)
+  if (result.ok) return
+  expect(result.reason).toBeTruthy()
+  if (reason) expect(result.reason).toMatch(reason)
+}
+
+describe.each(FIXTURES)('%s', (name) => {
+  const { info, beacons } = loadFixture(name)
+  const anchor: TrustAnchor = { chainHash: info.hash, publicKey: info.public_key }
+
+  it('has chain info that hashes to its chain hash', () => {
+    expect(computeChainHash(info)).toBe(info.hash)
+    expect(verifyChainInfo(info, anchor)).toEqual({ ok: true })
+  })
+
+  it('verifies every beacon', () => {
+    for (const beacon of beacons) expect(verifyBeacon(info, beacon, anchor, beacon.round)).toEqual({ ok: true })
+  })
+
+  it('rejects a flipped signature byte', () => {
+    const beacon = beacons[0]
+    const signature = flipByte(beacon.signature, beacon.signature.length / 2 - 1)
+    expectRejected(verifyBeacon(info, { ...beacon, signature }, anchor, beacon.round))
+    // with the randomness made to match, it is the BLS check that fails
+    const randomness = bytesToHex(sha256(hexToBytes(signature)))
+    expectRejected(verifyBeacon(info, { ...beacon, signature, randomness }, anchor, beacon.round))
+  })
+
+  it('rejects the wrong round', () => {
+    const beacon = beacons[0]
+    expectRejected(verifyBeacon(info, beacon, anchor, beacon.round + 1), /expected round/)
+    // a beacon relabelled with another round does not carry that round's signature
+    const relabelled: RandomnessBeacon = { ...beacon, round: beacon.round + 1 }
+    expectRejected(verifyBeacon(info, relabelled, anchor, relabelled.round), /signature/)
+  })
+
+  it('rejects randomness that is not the hash of the signature', () => {
+    const beacon = beacons[0]
+    expectRejected(verifyBeacon(info, { ...beacon, randomness: flipByte(beacon.randomness, 0) }, anchor), /randomness/)
+  })
+
+  it('rejects the wrong chain hash or public key', () => {
+    const beacon = beacons[0]
+    const otherHash = flipByte(info.hash, 0)
+    expectRejected(verifyChainInfo(info, { ...anchor, chainHash: otherHash }), /chain hash/)
+    expectRejected(verifyBeacon(info, beacon, { ...anchor, chainHash: otherHash }), /chain hash/)
+    expectRejected(verifyChainInfo(info, { ...anchor, publicKey: CHAINS.quicknet.publicKey }), /public key/)
+    // info claiming the pinned hash with a different key does not hash to it
+    const forged = { ...info, public_key: flipByte(info.public_key, 0) }
+    expectRejected(verifyChainInfo(forged, { chainHash: info.hash, publicKey: forged.public_key }), /does not hash/)
+  })
+
+  it('is not taken for a known chain', () => {
+    for (const known of Object.values(CHAINS)) {
+      expectRejected(verifyBeacon({ ...info, hash: known.chainHash }, beacons[0], known))
+    }
+  })
+})
+
+describe('chained-g2', () => {
+  it('rejects a beacon chained onto the wrong previous signature', () => {
+    const { info, beacons } = loadFixture('chained-g2')
+    const beacon = beacons[1] as RandomnessBeacon & { previous_signature: string }
+    const tampered = { ...beacon, previous_signature: flipByte(beacon.previous_signature, 0) }
+    expectRejected(verifyBeacon(info, tampered, { chainHash: info.hash, publicKey: info.public_key }, beacon.round), /signature/)
+  })
+})
@@ -0,0 +1,101 @@
+import { bls12_381 as bls } from '@noble/curves/bls12-381'
+import { sha256 } from '@noble/hashes/sha2'
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils'
+import type { ChainInfo, RandomnessBeacon } from 'drand-client'
+
+export type BeaconVerification = { ok: true } | { ok: false; reason: string }
+
+// What we trust independently of whatever node served the beacon
+export type TrustAnchor = {
+  chainHash: string
+  publicKey: string
+}
+
+// Domain separation tags used by the drand schemes
+const DST_G2 = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NUL_'
+const DST_G1 = 'BLS_SIG_BLS12381G1_XMD:SHA-256_SSWU_RO_NUL_'
+
+function roundBytes(round: number): Uint8Array {
+  const out = new Uint8Array(8)
+  new DataView(out.buffer).setBigUint64(0, BigInt(round), false)
+  return out
+}
+
+function uint32Bytes(n: number): Uint8Array {
+  const out = new Uint8Array(4)
+  new DataView(out.buffer).setUint32(0, n, false)
+  return out
+}
+
+// Recompute the chain hash the same way drand does: sha256(period | genesis | public key | group hash [| beacon id])
+export function computeChainHash(info: ChainInfo): string {
+  const beaconID = info.metadata?.beaconID ?? ''
+  const parts = [
+    uint32Bytes(info.period),
+    roundBytes(info.genesis_time),
+    hexToBytes(info.public_key),
+    hexToBytes(info.groupHash),
+  ]
+  if (beaconID !== '' && beaconID !== 'default') parts.push(new TextEncoder().encode(beaconID))
+  return bytesToHex(sha256(concatBytes(...parts)))
+}
+
+export function verifyChainInfo(info: ChainInfo, anchor: TrustAnchor): BeaconVerification {
+  if (info.hash !== anchor.chainHash) return { ok: false, reason: `chain hash ${info.hash} does not match pinned ${anchor.chainHash}` }
+  if (info.public_key !== anchor.publicKey) return { ok: false, reason: 'chain public key does not match pinned key' }
+  try {
+    const computed = computeChainHash(info)
+    if (computed !== anchor.chainHash) return { ok: false, reason: 'chain info does not hash to the pinned chain hash' }
+  } catch (err) {
+    return { ok: false, reason: `malformed chain info: ${(err as Error).message}` }
+  }
+  return { ok: true }
+}
+
+function randomnessMatchesSignature(beacon: RandomnessBeacon): boolean {
+  return bytesToHex(sha256(hexToBytes(beacon.signature))) === beacon.randomness.toLowerCase()
+}
+
+function verifySignature(info: ChainInfo, beacon: RandomnessBeacon): boolean {
+  const publicKey = hexToBytes(info.public_key)
+  const signature = hexToBytes(beacon.signature)
+  switch (info.schemeID) {
+    case 'pedersen-bls-chained': {
+      // Chained: message is H(previous_signature | round), signature on G2
+      const prev = 'previous_signature' in beacon ? beacon.previous_signature : undefined
+      if (!prev) return false
+      const message = sha256(concatBytes(hexToBytes(prev), roundBytes(beacon.round)))
+      return bls.longSignatures.verify(signature, bls.longSignatures.hash(message, DST_G2), publicKey)
+    }
+    case 'pedersen-bls-unchained': {
+      const message = sha256(roundBytes(beacon.round))
+      return bls.longSignatures.verify(signature, bls.longSignatures.hash(message, DST_G2), publicKey)
+    }
+    case 'bls-unchained-on-g1': {
+      // G1/G2 swapped (early quicknet): signature on G1 but hashed with the G2 tag
+      const message = sha256(roundBytes(beacon.round))
+      return bls.shortSignatures.verify(signature, bls.shortSignatures.hash(message, DST_G2), publicKey)
+    }
+    case 'bls-unchained-g1-rfc9380': {
+      const message = sha256(roundBytes(beacon.round))
+      return bls.shortSignatures.verify(signature, bls.shortSignatures.hash(message, DST_G1), publicKey)
+    }
+    default:
+      throw new Error(`unsupported scheme ${info.schemeID}`)
+  }
+}
+
+export function verifyBeacon(info: ChainInfo, beacon: RandomnessBeacon, anchor: TrustAnchor, expectedRound?: number): BeaconVerification {
+  const chain = verifyChainInfo(info, anchor)
+  if (!chain.ok) return chain
+  if (expectedRound !== undefined && beacon.round !== expectedRound) {
+    return { ok: false, reason: `expected round ${expectedRound}, got ${beacon.round}` }
+  }
+  try {
+    if (!randomnessMatchesSignature(beacon)) return { ok: false, reason: 'randomness is not the hash of the signature' }
+    if (!verifySignature(info, beacon)) return { ok: false, reason: 'BLS signature check failed' }
+  } catch (err) {
+    return { ok: false, reason: (err as Error).message }
+  }
+  return { ok: true }
+}